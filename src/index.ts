@@ -4,10 +4,74 @@ export {
   toNamespace,
   fromNamespace,
   getNamespaceHooks,
+  createSelectors,
+  getNamespaceByPath,
+  getIn,
+  setIn,
+  addNamespace,
+  removeNamespace,
+  destroy,
+  resetNamespaces,
+  batch,
+  allowNamespaceWrites,
+  createNamespaceStore,
+  adoptStore,
+  defineNamespacedStore,
+  createNamespaceContext,
+  namespacedDevtools,
+  createNamespaceFamily,
+  getNamespaceFamilyHooks,
+  createDerived,
+  useNamespaces,
+  subscribeNamespaces,
+  persistNamespaces,
+  dehydrate,
+  hydrate,
+  describeNamespaces,
+  separatorKeyCodec,
+  camelCaseKeyCodec,
+  symbolKeyCodec,
 } from './utils';
 export type {
   Namespace,
+  NamespacedOptions,
+  NamespaceLifecycleApi,
   ExtractNamespace,
   ExtractNamespaces,
   UseBoundNamespace,
+  AddNamespace,
+  NamespaceApiExtensions,
+  SelectorSubscribe,
+  SelectorSubscribeOptions,
+  NamespaceHooks,
+  UseContextNamespace,
+  DevtoolsAction,
+  NamespaceFamily,
+  UseNamespaceFamily,
+  NamespaceFamilyMember,
+  UseDerived,
+  AddDerivedKey,
+  NamespacePersistOptions,
+  PersistNamespacesOptions,
+  PersistNamespacesApi,
+  NamespaceStore,
+  NamespaceStoreOptions,
+  DehydrateOptions,
+  NamespacedStoreFactory,
+  NamespaceMerge,
+  DeepPartial,
+  NamespacePath,
+  ApiPath,
+  ApiPathValue,
+  UseNamespaceAtPath,
+  WithSelectors,
+  NamespaceDescription,
+  NamespaceDescriptions,
+  NamespaceCollisions,
+  NamespaceCollisionError,
+  KeyCodec,
+  KeyCodecs,
+  KeyCodecId,
+  SeparatorKeyCodec,
+  KeySeparator,
 } from './types';
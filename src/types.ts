@@ -1,15 +1,22 @@
 import {
   ExtractState,
+  Mutate,
   StateCreator,
   StoreApi,
   StoreMutatorIdentifier,
   StoreMutators,
   UseBoundStore,
 } from 'zustand';
+import { NamedSet, PersistStorage } from 'zustand/middleware';
 
 declare module 'zustand/vanilla' {
   interface StoreMutators<S, A> {
     'zustand-namespaces': WithNamespaces<S, A>;
+    'zustand-namespaces/action': Write<S, WithAction<ExtractState<S>>>;
+    'zustand-namespaces/persist': Write<
+      S,
+      { persistNamespaces: PersistNamespacesApi }
+    >;
   }
 }
 
@@ -17,6 +24,105 @@ export type WithNames<T> = T & {
   namespaces: any;
   namespacePath?: Namespace<any, any, any, any, any, any>[];
   _payload?: any;
+  /**
+   * Keys of the state that are derived, and how to compute them from the state.
+   */
+  _derived?: Record<string, (state: any) => unknown>;
+  /**
+   * Gets the namespace's state, including its private keys, from its parent's state.
+   */
+  _selectState?: (state: any) => any;
+  /**
+   * Gets the namespace's initial state from the store's initial state, which leaves out the namespaces that were
+   * added to it later.
+   */
+  _getStoreInitialState?: () => any;
+  /**
+   * Keeps the private keys of the state that the namespace is created with, and returns the rest of the state
+   * for its parent's state.
+   */
+  _initPrivateState?: (state: any) => any;
+  /**
+   * Runs a function, collecting the updates it makes into a single update.
+   */
+  _batch?: <R>(fn: () => R) => R;
+  /**
+   * The api itself. Hooks are copies of their api, which do not see the payload that its updates are collected in.
+   */
+  _api?: WithNames<StoreApi<any>>;
+  /**
+   * Whether writes to the keys of the api's namespaces throw outside of `allowNamespaceWrites`.
+   */
+  _strict?: boolean;
+  /**
+   * Calls the namespace's onMount, once.
+   */
+  _mount?: () => void;
+  /**
+   * Calls the namespace's onDestroy and runs its cleanups, once.
+   */
+  _destroy?: () => void;
+  /**
+   * Runs when the namespace is destroyed, e.g. to unsubscribe the listeners registered through its api.
+   */
+  _cleanups?: Set<() => void>;
+};
+
+/**
+ * The action passed as the third argument of setState, used by devtools to label updates.
+ */
+export type DevtoolsAction = string | { type: string; [key: string]: unknown };
+
+export type SetStateWithAction<T> = (
+  state: T | Partial<T> | ((state: T) => T | Partial<T>),
+  replace?: boolean,
+  action?: DevtoolsAction
+) => void;
+
+/**
+ * The setState of namespaced apis and of the set that their creators are called with, which takes an action.
+ */
+export type WithAction<T> = { setState: NamedSet<T> };
+
+/**
+ * The mutator that types the action on the set of a namespace creator.
+ */
+type NamespaceAction = ['zustand-namespaces/action', never];
+
+/**
+ * Methods that are added to every namespaced api.
+ */
+export type NamespaceApiExtensions = {
+  /**
+   * Resets the namespace, including its nested namespaces, to its initial state.
+   */
+  reset: () => void;
+};
+
+/**
+ * The subscribe of a namespaced api. Besides listening to the whole state of the namespace, it can listen to a
+ * selected part of it, as with zustand's `subscribeWithSelector`.
+ */
+export type SelectorSubscribe<T> = {
+  subscribe: {
+    (listener: (state: T, previousState: T) => void): () => void;
+    <U>(
+      selector: (state: T) => U,
+      listener: (selectedState: U, previousSelectedState: U) => void,
+      options?: SelectorSubscribeOptions<U>
+    ): () => void;
+  };
+};
+
+export type SelectorSubscribeOptions<U> = {
+  /**
+   * Whether the selected state has changed. Defaults to `Object.is`.
+   */
+  equalityFn?: (a: U, b: U) => boolean;
+  /**
+   * Whether to call the listener with the current selected state when subscribing.
+   */
+  fireImmediately?: boolean;
 };
 
 export type ExtractNamespace<T> = T extends Namespace<
@@ -25,17 +131,94 @@ export type ExtractNamespace<T> = T extends Namespace<
   any,
   any,
   infer F,
-  infer S
+  infer S,
+  any,
+  infer H
 >
   ? F extends true
-    ? PrefixObject<N, U, S>
-    : { [K in N]: U }
+    ? PrefixObject<N, OmitHiddenKeys<U, H>, S>
+    : { [K in N]: OmitHiddenKeys<U, H> }
   : never;
+
+/**
+ * Leaves the private and ephemeral keys of a namespace out of the state that its parent sees. Namespaces that are
+ * typed without their hidden keys (any) keep all of their keys.
+ */
+export type OmitHiddenKeys<T, Hidden> = [Hidden] extends [never]
+  ? T
+  : 0 extends 1 & Hidden
+  ? T
+  : Omit<T, Extract<Hidden, keyof T>>;
 export type ExtractNamespaces<
   T extends readonly Namespace<any, string, any, any, any, any>[]
-> = UnionToIntersection<ExtractNamespace<T[number]>>;
+> = [NamespaceCollisions<T>] extends [never]
+  ? UnionToIntersection<ExtractNamespace<T[number]>>
+  : NamespaceCollisionError<NamespaceCollisions<T>>;
+
+/**
+ * The names that are used by more than one namespace of a list of namespaces.
+ */
+type DuplicateNamespaceNames<
+  Namespaces,
+  Seen extends string = never
+> = Namespaces extends readonly [
+  Namespace<any, infer N, any, any, any, any>,
+  ...infer Rest
+]
+  ? N extends Seen
+    ? N | DuplicateNamespaceNames<Rest, Seen>
+    : DuplicateNamespaceNames<Rest, Seen | N>
+  : never;
+
+/**
+ * Messages for the keys of each namespace that belong to another, flattened, namespace.
+ */
+type OverlappingNamespaceKeys<NS, All = NS> = NS extends Namespace<
+  any,
+  infer N,
+  any,
+  any,
+  any,
+  any
+>
+  ? Exclude<All, NS> extends infer Other
+    ? Other extends Namespace<any, infer OtherN, any, any, true, infer OtherS>
+      ? keyof IncludeByPrefix<
+          OtherN,
+          ExtractNamespace<NS>,
+          OtherS
+        > extends infer K extends string
+        ? `Key "${K}" of namespace "${N}" overlaps the prefix of flattened namespace "${OtherN}"`
+        : never
+      : never
+    : never
+  : never;
+
+/**
+ * Messages for the collisions between the keys that a list of namespaces adds to its parent's state.
+ */
+export type NamespaceCollisions<Namespaces> =
+  | (DuplicateNamespaceNames<Namespaces> extends infer N extends string
+      ? `Namespace "${N}" is defined more than once`
+      : never)
+  | (Namespaces extends readonly (infer NS)[]
+      ? OverlappingNamespaceKeys<NS>
+      : never);
+
+/**
+ * Used in place of a type that is made from namespaces that collide, so that the collision is reported.
+ */
+export type NamespaceCollisionError<Message extends string> = {
+  namespaceCollision: Message;
+};
 
-type NamespaceOptions<Flatten extends boolean, Separator extends string> = {
+export type NamespaceOptions<
+  Flatten extends boolean,
+  Separator extends KeySeparator,
+  T = any,
+  Merge extends NamespaceMerge<T> = NamespaceMerge<T>,
+  Hidden extends keyof T = keyof T
+> = {
   /**
    * Whether to flatten the namespace.
    */
@@ -44,24 +227,274 @@ type NamespaceOptions<Flatten extends boolean, Separator extends string> = {
   /**
    * The separator to use when flattening the namespace.
    */
-  separator?: Separator;
+  separator?: Separator & string;
+
+  /**
+   * How the keys of the namespace are encoded into its parent's state when flattening the namespace. Used in
+   * place of a separator.
+   */
+  keyCodec?: Separator & KeyCodec;
+
+  /**
+   * How updates are merged into the namespace's state. `shallow` (the default) merges the top level keys,
+   * `deep` also merges nested plain objects, and a function merges the update itself.
+   */
+  merge?: Merge;
+
+  /**
+   * How to persist the namespace when the store uses `persistNamespaces`. Namespaces without this option are not persisted.
+   */
+  persist?: NamespacePersistOptions<T>;
+
+  /**
+   * Keys that only the namespace sees. They are kept by the namespace instead of its parent's state, so they are
+   * never persisted or serialized, and the parent's middleware never sees them.
+   */
+  private?: readonly Hidden[];
+
+  /**
+   * Keys that are kept in the parent's state, but are left out of `toNamespace`, `fromNamespace`, `getRawState`,
+   * persistence and snapshots.
+   */
+  ephemeral?: readonly Hidden[];
+
+  /**
+   * Called once the namespace has been created and added to its parent's namespaces.
+   */
+  onInit?: (api: NamespaceLifecycleApi<T>) => void;
+
+  /**
+   * Called once the namespace's state is in the store: after the store has been created, or after the namespace
+   * has been added with `addNamespace`.
+   */
+  onMount?: (api: NamespaceLifecycleApi<T>) => void;
+
+  /**
+   * Called when the namespace is torn down by `destroy` or `removeNamespace`, before the listeners registered
+   * through its api are unsubscribed.
+   */
+  onDestroy?: (api: NamespaceLifecycleApi<T>) => void;
+};
+
+/**
+ * The namespaced api that lifecycle callbacks are called with.
+ */
+export type NamespaceLifecycleApi<T> = StoreApi<T> &
+  WithAction<T> &
+  NamespaceApiExtensions &
+  SelectorSubscribe<T>;
+
+export type NamespaceMerge<T> =
+  | 'shallow'
+  | 'deep'
+  | ((currentState: T, updatedState: Partial<T>) => T);
+
+/**
+ * Makes every key optional, including the keys of nested plain objects.
+ */
+export type DeepPartial<T> = T extends (...args: any[]) => any
+  ? T
+  : T extends readonly any[]
+  ? T
+  : T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+/**
+ * The setState of a namespace that deep merges its updates.
+ */
+export type DeepMergeSetState<T> = (
+  state: DeepPartial<T> | ((state: T) => DeepPartial<T>),
+  replace?: false
+) => void;
+
+/**
+ * Adds the setState of a namespace's merge mode to its api.
+ */
+export type WithMerge<T, Merge> = [Merge] extends ['deep']
+  ? { setState: DeepMergeSetState<T> }
+  : // eslint-disable-next-line
+    {};
+
+export type NamespacePersistOptions<T> = {
+  /**
+   * The storage key. Defaults to the path of the namespace (e.g. namespace1/subNamespace).
+   */
+  name?: string;
+  /**
+   * Where to persist the namespace. Defaults to the storage passed to `persistNamespaces`.
+   */
+  storage?: PersistStorage<any>;
+  /**
+   * If the stored version does not match this version, the stored state is migrated.
+   */
+  version?: number;
+  /**
+   * Migrates a stored state from an older version.
+   */
+  migrate?: (
+    persistedState: unknown,
+    version: number
+  ) => Partial<T> | Promise<Partial<T>>;
 };
 
+export type PersistNamespacesOptions = {
+  /**
+   * Prefixed to the storage key of every namespace.
+   */
+  name?: string;
+  /**
+   * The default storage for namespaces. Defaults to localStorage.
+   */
+  storage?: PersistStorage<any>;
+  /**
+   * Called when the state stored for a namespace is not loaded, as its version changed and it has no migrate
+   * function.
+   */
+  onError?: (error: Error) => void;
+};
+
+export type PersistNamespacesApi = {
+  /**
+   * Loads the state of every persisted namespace from storage. Synchronous storage is loaded before it returns.
+   */
+  rehydrate: () => Promise<void>;
+  /**
+   * Whether every persisted namespace has been loaded from storage.
+   */
+  hasHydrated: () => boolean;
+  /**
+   * Called when every persisted namespace has been loaded from storage.
+   */
+  onFinishHydration: (listener: () => void) => () => void;
+  /**
+   * Removes the state of every persisted namespace from storage.
+   */
+  clearStorage: () => void;
+};
+
+export type PersistNamespaces = <
+  T,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = []
+>(
+  initializer: StateCreator<
+    T,
+    [...Mps, ['zustand-namespaces/persist', unknown]],
+    Mcs
+  >,
+  options?: PersistNamespacesOptions
+) => StateCreator<T, Mps, [['zustand-namespaces/persist', unknown], ...Mcs]>;
+
 export type Namespace<
   T = any,
   Name extends string = string,
   Mps extends [StoreMutatorIdentifier, unknown][] = [],
   Mcs extends [StoreMutatorIdentifier, unknown][] = [],
   Flatten extends boolean = false,
-  Separator extends string = '_'
+  Separator extends KeySeparator = '_',
+  Merge extends NamespaceMerge<T> = NamespaceMerge<T>,
+  Hidden extends keyof T = any
 > = {
   name: Name;
   creator: StateCreator<T, Mps, Mcs>;
-  options?: NamespaceOptions<Flatten, Separator>;
+  options?: NamespaceOptions<Flatten, Separator, T, Merge, Hidden>;
 };
 
-export type PrefixObject<Name extends string, U, Separator extends string> = {
-  [K in keyof U as `${Name}${Separator}${K & string}`]: U[K];
+/**
+ * Encodes the keys of a flattened namespace into keys of its parent's state, and decodes them back.
+ */
+export type KeyCodec<Id extends KeyCodecId = KeyCodecId> = {
+  /**
+   * How the codec maps keys at the type level, as the key of its mapping in `KeyCodecs`.
+   */
+  id: Id;
+  /**
+   * Gets the key of the parent's state for a key of the namespace.
+   */
+  encode: (name: string, key: string) => string | symbol;
+  /**
+   * Gets the key of the namespace for a key of the parent's state, or undefined if the key is not the namespace's.
+   */
+  decode: (name: string, key: string | symbol) => string | undefined;
+};
+
+export type SeparatorKeyCodec<Separator extends string = string> =
+  KeyCodec<'separator'> & {
+    separator: Separator;
+  };
+
+/**
+ * How each key codec maps keys at the type level, keyed by the id of the codec. `encode` is the key of the
+ * parent's state for the namespace key `Key`, and `decode` is the namespace key for the parent key `Key` (or never).
+ * Custom codecs add their mapping with declaration merging.
+ */
+export interface KeyCodecs<Codec, Name extends string, Key> {
+  separator: {
+    encode: `${Name}${CodecSeparator<Codec>}${Key & string}`;
+    decode: Key extends `${Name}${CodecSeparator<Codec>}${infer V}` ? V : never;
+  };
+  camelCase: {
+    encode: `${Name}${Capitalize<Key & string>}`;
+    decode: Key extends `${Name}${infer V}`
+      ? V extends `${infer First}${string}`
+        ? First extends Uppercase<First>
+          ? First extends Lowercase<First>
+            ? never
+            : Uncapitalize<V>
+          : never
+        : never
+      : never;
+  };
+  symbol: {
+    encode: symbol;
+    decode: Key extends symbol ? string : never;
+  };
+}
+
+export type KeyCodecId = keyof KeyCodecs<any, string, any>;
+
+type CodecSeparator<Codec> = Codec extends { separator: infer S extends string }
+  ? S
+  : never;
+
+/**
+ * A separator, or a codec, for the keys of a flattened namespace.
+ */
+export type KeySeparator = string | KeyCodec;
+
+type ToKeyCodec<Separator> = Separator extends string
+  ? SeparatorKeyCodec<Separator>
+  : Separator;
+
+/**
+ * The key of the parent's state for a key of a flattened namespace.
+ */
+export type EncodeKey<
+  Name extends string,
+  Key,
+  Separator extends KeySeparator
+> = ToKeyCodec<Separator> extends infer Codec extends KeyCodec
+  ? KeyCodecs<Codec, Name, Key>[Codec['id']]['encode']
+  : never;
+
+/**
+ * The key of a flattened namespace for a key of its parent's state, or never if the key is not the namespace's.
+ */
+export type DecodeKey<
+  Name extends string,
+  Key,
+  Separator extends KeySeparator
+> = ToKeyCodec<Separator> extends infer Codec extends KeyCodec
+  ? KeyCodecs<Codec, Name, Key>[Codec['id']]['decode']
+  : never;
+
+export type PrefixObject<
+  Name extends string,
+  U,
+  Separator extends KeySeparator
+> = {
+  [K in keyof U as EncodeKey<Name, K, Separator>]: U[K];
 };
 
 /**
@@ -70,11 +503,11 @@ export type PrefixObject<Name extends string, U, Separator extends string> = {
 export type IncludeByPrefix<
   Prefix extends string,
   T,
-  Separator extends string
+  Separator extends KeySeparator
 > = {
-  [K in keyof T as K extends `${Prefix}${Separator}${string}`
-    ? K
-    : never]: T[K];
+  [K in keyof T as [DecodeKey<Prefix, K, Separator>] extends [never]
+    ? never
+    : K]: T[K];
 };
 
 /**
@@ -83,11 +516,9 @@ export type IncludeByPrefix<
 export type FilterByPrefix<
   Prefix extends string,
   T,
-  Separator extends string
+  Separator extends KeySeparator
 > = {
-  [K in keyof T as K extends `${Prefix}${Separator}${infer V}`
-    ? V
-    : never]: T[K];
+  [K in keyof T as DecodeKey<Prefix, K, Separator>]: T[K];
 };
 
 /**
@@ -96,18 +527,18 @@ export type FilterByPrefix<
 export type ExcludeByPrefix<
   Prefix extends string,
   T,
-  Separator extends string
+  Separator extends KeySeparator
 > = {
-  [K in keyof T as K extends `${Prefix}${Separator}${string}`
-    ? never
-    : K]: T[K];
+  [K in keyof T as [DecodeKey<Prefix, K, Separator>] extends [never]
+    ? K
+    : never]: T[K];
 };
 
 export type ToNamespace<
   State,
   N extends string,
   F extends boolean,
-  S extends string
+  S extends KeySeparator
 > = F extends true
   ? FilterByPrefix<N, State, S>
   : N extends keyof State
@@ -118,7 +549,7 @@ export type FromNamespace<
   State,
   N extends string,
   F extends boolean,
-  S extends string
+  S extends KeySeparator
 > = F extends true ? PrefixObject<N, State, S> : { [K in N]: State };
 
 export type UnionToIntersection<U> = (
@@ -164,6 +595,302 @@ export type UseBoundNamespace<
    * The path of namespaces to get to root store. (e.g. ['namespace1','subNamespace1'])
    */
   namespacePath: Namespaces;
+} & WithAction<ExtractState<S>> &
+  NamespaceApiExtensions &
+  SelectorSubscribe<ExtractState<S>>;
+
+/**
+ * The hooks returned by `getNamespaceHooks`, keyed by namespace name.
+ */
+export type NamespaceHooks<
+  S extends StoreApi<any> & { namespaces: any },
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[],
+  CurrentNamespaces extends readonly Namespace<
+    any,
+    string,
+    any,
+    any,
+    any,
+    any
+  >[] = []
+> = {
+  [NewNamespace in Namespaces[number] as NewNamespace extends Namespace<
+    any,
+    infer N,
+    any,
+    any,
+    any,
+    any
+  >
+    ? N extends string
+      ? N
+      : never
+    : never]: NewNamespace extends Namespace<
+    infer T,
+    infer N,
+    any,
+    any,
+    any,
+    any
+  >
+    ? UseBoundNamespace<
+        N extends keyof S['namespaces']
+          ? S['namespaces'][N] & StoreApi<T>
+          : never,
+        [...CurrentNamespaces, NewNamespace]
+      >
+    : never;
+};
+
+/**
+ * A hook with a selector hook for each key of its state, returned by `createSelectors`.
+ */
+export type WithSelectors<H extends StoreApi<any>> = H & {
+  use: {
+    [K in keyof ExtractState<H>]: () => ExtractState<H>[K];
+  };
+};
+
+/**
+ * The options of `createNamespaceStore`.
+ */
+export type NamespaceStoreOptions<T, P> = {
+  /**
+   * State that overrides the namespace's initial state.
+   */
+  initialState?: Partial<T>;
+  /**
+   * State of the parent store that the namespace is created alongside.
+   */
+  parentState?: P;
+};
+
+/**
+ * The options of `dehydrate`.
+ */
+export type DehydrateOptions<S extends StoreApi<any> & { namespaces: any }> = {
+  /**
+   * The namespaces to include in the snapshot. If not provided, all of the store's namespaces are included.
+   */
+  include?: readonly Namespace<
+    any,
+    keyof S['namespaces'] & string,
+    any,
+    any,
+    any,
+    any
+  >[];
+};
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/**
+ * The dot separated paths of the namespaces of an api (e.g. 'namespace1' | 'namespace1.subNamespace1').
+ */
+export type NamespacePath<Api> = Api extends { namespaces: infer Namespaces }
+  ? IsAny<Namespaces> extends true
+    ? string
+    : {
+        [K in keyof Namespaces & string]:
+          | K
+          | `${K}.${NamespacePath<Namespaces[K]>}`;
+      }[keyof Namespaces & string]
+  : never;
+
+/**
+ * The api of the namespace at a dot separated path.
+ */
+export type NamespaceAtPath<Api, P extends string> = Api extends {
+  namespaces: infer Namespaces;
+}
+  ? P extends `${infer K}.${infer Rest}`
+    ? K extends keyof Namespaces
+      ? NamespaceAtPath<Namespaces[K], Rest>
+      : never
+    : P extends keyof Namespaces
+    ? Namespaces[P]
+    : never
+  : never;
+
+/**
+ * The hook of the namespace at a dot separated path, returned by `getNamespaceByPath`.
+ */
+export type UseNamespaceAtPath<Api, P extends string> = NamespaceAtPath<
+  Api,
+  P
+> extends infer NamespaceApi extends StoreApi<any>
+  ? UseBoundNamespace<
+      NamespaceApi,
+      Namespace<any, string, any, any, any, any>[]
+    >
+  : never;
+
+type IsPlainObjectType<T> = T extends (...args: any[]) => any
+  ? false
+  : T extends readonly any[]
+  ? false
+  : T extends object
+  ? true
+  : false;
+
+/**
+ * The paths of the keys of a state, including the keys of nested plain objects.
+ */
+export type StatePath<T> = T extends object
+  ? {
+      [K in keyof T & string]:
+        | [K]
+        | (IsPlainObjectType<NonNullable<T[K]>> extends true
+            ? [K, ...StatePath<NonNullable<T[K]>>]
+            : never);
+    }[keyof T & string]
+  : never;
+
+/**
+ * The value at a path of a state.
+ */
+export type StatePathValue<T, P> = P extends [infer K, ...infer Rest]
+  ? K extends keyof NonNullable<T>
+    ? StatePathValue<NonNullable<T>[K], Rest>
+    : never
+  : T;
+
+/**
+ * The paths that `getIn` and `setIn` accept: the names of namespaces, followed by a path of the namespace's state.
+ */
+export type ApiPath<Api> =
+  | StatePath<ExtractState<Api>>
+  | (Api extends { namespaces: infer Namespaces }
+      ? IsAny<Namespaces> extends true
+        ? string[]
+        : {
+            [K in keyof Namespaces & string]:
+              | [K]
+              | [K, ...ApiPath<Namespaces[K]>];
+          }[keyof Namespaces & string]
+      : never);
+
+/**
+ * The value at a path accepted by `getIn` and `setIn`.
+ */
+export type ApiPathValue<Api, P> = P extends [infer K, ...infer Rest]
+  ? Api extends { namespaces: infer Namespaces }
+    ? K extends keyof Namespaces
+      ? ApiPathValue<Namespaces[K], Rest>
+      : StatePathValue<ExtractState<Api>, P>
+    : StatePathValue<ExtractState<Api>, P>
+  : ExtractState<Api>;
+
+/**
+ * The keys of a namespaced api that are not added by middleware.
+ */
+type NamespacedApiKey =
+  | keyof StoreApi<any>
+  | keyof NamespaceApiExtensions
+  | 'namespaces'
+  | 'namespacePath';
+
+/**
+ * A description of a namespace in a store, returned by `describeNamespaces`.
+ */
+export type NamespaceDescription<Name extends string = string, Api = any> = {
+  name: Name;
+  /**
+   * The names of the namespaces to get to the namespace from the root store.
+   */
+  path: string[];
+  flatten: boolean;
+  /**
+   * The separator of the namespace's keys, if they are not encoded with another key codec.
+   */
+  separator: string | undefined;
+  /**
+   * The id of the codec that encodes the namespace's keys when flattened.
+   */
+  keyCodec: KeyCodecId;
+  /**
+   * The keys of the namespace's state, leaving out the keys of its nested namespaces.
+   */
+  keys: IsAny<Api> extends true
+    ? string[]
+    : (keyof ExtractState<Api> & string)[];
+  /**
+   * The apis that middleware added to the namespace (e.g. persist or temporal).
+   */
+  mutators: IsAny<Api> extends true
+    ? string[]
+    : Exclude<keyof Api & string, NamespacedApiKey>[];
+  namespaces: NamespaceDescriptions<Api>;
+};
+
+/**
+ * Descriptions of the namespaces of an api, keyed by namespace name.
+ */
+export type NamespaceDescriptions<Api> = Api extends {
+  namespaces: infer Namespaces;
+}
+  ? IsAny<Namespaces> extends true
+    ? Record<string, NamespaceDescription>
+    : {
+        [K in keyof Namespaces & string]: NamespaceDescription<
+          K,
+          Namespaces[K]
+        >;
+      }
+  : // eslint-disable-next-line
+    {};
+
+/**
+ * A standalone store made from a namespace, with the api the namespace has when it is part of a store.
+ */
+export type NamespaceStore<
+  NS extends Namespace<any, string, any, any, any, any>
+> = NS extends Namespace<infer T, string, any, infer Mcs, any, any, infer Merge>
+  ? UseBoundNamespace<
+      StoreApi<T> & MergeMs<StoreApi<T>, Mcs> & WithMerge<T, Merge>,
+      [NS]
+    >
+  : never;
+
+/**
+ * A namespace hook that resolves its store from the nearest provider created by `createNamespaceContext`.
+ */
+export type UseContextNamespace<
+  H extends UseBoundNamespace<any, any>,
+  S extends StoreApi<any> = StoreApi<any>
+> = {
+  (): ExtractState<H>;
+  <U>(selector: (state: ExtractState<H>) => U): U;
+  /**
+   * Gets the raw state of the namespace in a provider's store (e.g. the one from `useStoreApi`). The store is
+   * passed in, as there is no provider to resolve it from outside of rendering.
+   */
+  getRawState: (
+    store: S
+  ) => H extends { getRawState: () => infer R } ? R : never;
+  /**
+   * The path of namespaces to get to root store. (e.g. ['namespace1','subNamespace1'])
+   */
+  namespacePath: H extends { namespacePath: infer P } ? P : never;
+  /**
+   * Gets the namespace hook bound to the nearest provider's store.
+   */
+  useApi: () => H;
+};
+
+/**
+ * The context-aware hooks returned by `createNamespaceContext`, keyed by namespace name.
+ */
+export type ContextNamespaceHooks<
+  S extends StoreApi<any> & { namespaces: any },
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[]
+> = {
+  [K in keyof NamespaceHooks<S, Namespaces>]: NamespaceHooks<
+    S,
+    Namespaces
+  >[K] extends infer H extends UseBoundNamespace<any, any>
+    ? UseContextNamespace<H, S>
+    : never;
 };
 
 export type MergeMs<
@@ -209,17 +936,86 @@ export type WithNamespaces<S, A> = A extends Namespace<
             any,
             infer Mcs,
             any,
-            any
+            any,
+            infer Merge
           >
-            ? MergeMs<StoreApi<T>, Mcs>
+            ? StoreApi<T> &
+                MergeMs<StoreApi<T>, Mcs> &
+                WithAction<T> &
+                NamespaceApiExtensions &
+                SelectorSubscribe<T> &
+                WithMerge<T, Merge>
             : // eslint-disable-next-line
               {};
         };
       }
-    >
+    > &
+      // the setState of middleware applied before namespaced (e.g. immer) is kept
+      WithAction<ExtractState<S>>
   : S;
 
+type AddNamespaceToApi<
+  Api,
+  NS extends Namespace<any, string, any, any, any, any>
+> = NS extends Namespace<
+  infer T,
+  infer N,
+  any,
+  infer Mcs,
+  any,
+  any,
+  infer Merge
+>
+  ? Write<
+      Write<Api, StoreApi<ExtractState<Api> & ExtractNamespace<NS>>>,
+      {
+        namespaces: (Api extends { namespaces: infer Current }
+          ? Current
+          : // eslint-disable-next-line
+            {}) & {
+          [K in N]: StoreApi<T> &
+            MergeMs<StoreApi<T>, Mcs> &
+            WithAction<T> &
+            NamespaceApiExtensions &
+            SelectorSubscribe<T> &
+            WithMerge<T, Merge>;
+        };
+      }
+    >
+  : never;
+
+/**
+ * The type of a store after a namespace has been added to it with `addNamespace`.
+ */
+export type AddNamespace<
+  S,
+  NS extends Namespace<any, string, any, any, any, any>
+> = S extends UseBoundStore<infer Api extends StoreApi<any>>
+  ? UseBoundStore<AddNamespaceToApi<Api, NS>>
+  : AddNamespaceToApi<S, NS>;
+
 export type Assert<T, Expected> = T extends Expected ? T : never;
+
+/**
+ * Reports the collisions between a list of namespaces where the namespaces are passed. A single namespace
+ * cannot collide, which also lets a namespace that is still generic pass the check.
+ */
+type CheckNamespaces<Namespaces> = Namespaces extends readonly [any]
+  ? unknown
+  : [NamespaceCollisions<Namespaces>] extends [never]
+  ? unknown
+  : NamespaceCollisionError<NamespaceCollisions<Namespaces>>;
+export type NamespacedOptions<
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[]
+> = {
+  namespaces: readonly [...Namespaces] & CheckNamespaces<Namespaces>;
+  /**
+   * Whether writes from the parent to the keys of a namespace throw outside of `allowNamespaceWrites`. Meant for
+   * development, e.g. `strict: import.meta.env.DEV`.
+   */
+  strict?: boolean;
+};
+
 export type Namespaced = {
   <
     T,
@@ -230,19 +1026,54 @@ export type Namespaced = {
     creator: (
       namespacedState: ExtractNamespaces<Namespaces>
     ) => StateCreator<T, [...Mps, ['zustand-namespaces', Namespaces]], Mcs, T>,
-    options: {
-      namespaces: Namespaces;
-    }
+    options: NamespacedOptions<Namespaces>
   ): StateCreator<T, Mps, [['zustand-namespaces', Namespaces], ...Mcs]>;
   <
     T extends ExtractNamespaces<Namespaces>,
     Namespaces extends readonly Namespace<any, string, any, any, any, any>[],
     Mps extends [StoreMutatorIdentifier, unknown][] = [],
     Mcs extends [StoreMutatorIdentifier, unknown][] = []
+  >(
+    options: NamespacedOptions<Namespaces>
+  ): StateCreator<T, Mps, [['zustand-namespaces', Namespaces], ...Mcs], T> &
+    Assert<T, ExtractNamespaces<Namespaces>>;
+};
+
+/**
+ * Creates fresh instances of a namespaced store. Returned by `defineNamespacedStore`.
+ */
+export type NamespacedStoreFactory<
+  T,
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[]
+> = {
+  (): UseBoundStore<Mutate<StoreApi<T>, [['zustand-namespaces', Namespaces]]>>;
+  /**
+   * The namespaces of the store.
+   */
+  namespaces: Namespaces;
+  /**
+   * Gets the hooks of the namespaces, bound to an instance of the store.
+   */
+  getNamespaceHooks: <S extends StoreApi<T> & { namespaces: any }>(
+    store: UseBoundStore<S>
+  ) => NamespaceHooks<S, Namespaces>;
+};
+
+export type DefineNamespacedStore = {
+  <
+    T,
+    Namespaces extends readonly Namespace<any, string, any, any, any, any>[]
   >(options: {
     namespaces: Namespaces;
-  }): StateCreator<T, Mps, [['zustand-namespaces', Namespaces], ...Mcs], T> &
-    Assert<T, ExtractNamespaces<Namespaces>>;
+    root: (
+      namespacedState: ExtractNamespaces<Namespaces>
+    ) => StateCreator<T, [['zustand-namespaces', Namespaces]], [], T>;
+  }): NamespacedStoreFactory<T, Namespaces>;
+  <
+    Namespaces extends readonly Namespace<any, string, any, any, any, any>[]
+  >(options: {
+    namespaces: Namespaces;
+  }): NamespacedStoreFactory<ExtractNamespaces<Namespaces>, Namespaces>;
 };
 
 export type CreateNamespace = {
@@ -253,22 +1084,216 @@ export type CreateNamespace = {
     Mps extends [StoreMutatorIdentifier, unknown][] = [],
     Mcs extends [StoreMutatorIdentifier, unknown][] = [],
     Flatten extends boolean = false,
-    Separator extends string = '_'
+    Separator extends KeySeparator = '_',
+    Merge extends NamespaceMerge<T> = NamespaceMerge<T>,
+    Hidden extends keyof T = never
   >(
     name: Name,
-    creator: StateCreator<T, Mps, Mcs, T>,
-    options?: NamespaceOptions<Flatten, Separator>
-  ): Namespace<T, Name, Mps, Mcs, Flatten, Separator>;
+    creator: StateCreator<T, [...Mps, NamespaceAction], Mcs, T>,
+    options?: NamespaceOptions<Flatten, Separator, T, Merge, Hidden>
+  ): Namespace<T, Name, Mps, Mcs, Flatten, Separator, Merge, Hidden>;
   // explicit
   <T>(): <
     Name extends string,
     Mps extends [StoreMutatorIdentifier, unknown][] = [],
     Mcs extends [StoreMutatorIdentifier, unknown][] = [],
     Flatten extends boolean = false,
-    Separator extends string = '_'
+    Separator extends KeySeparator = '_',
+    Merge extends NamespaceMerge<T> = NamespaceMerge<T>,
+    Hidden extends keyof T = never
   >(
     name: Name,
-    creator: StateCreator<T, Mps, Mcs>,
-    options?: NamespaceOptions<Flatten, Separator>
-  ) => Namespace<T, Name, Mps, Mcs, Flatten, Separator>;
+    creator: StateCreator<T, [...Mps, NamespaceAction], Mcs>,
+    options?: NamespaceOptions<Flatten, Separator, T, Merge, Hidden>
+  ) => Namespace<T, Name, Mps, Mcs, Flatten, Separator, Merge, Hidden>;
+};
+
+/**
+ * The state of a namespace family. Members are nested under their id, or flattened with their id as a prefix.
+ */
+export type NamespaceFamilyState<
+  T,
+  Id extends string,
+  Flatten extends boolean,
+  Separator extends KeySeparator
+> = Flatten extends true
+  ? Partial<PrefixObject<Id, T, Separator>>
+  : Partial<Record<Id, T>>;
+
+export type NamespaceFamily<
+  T = any,
+  Name extends string = string,
+  Id extends string = string,
+  Mps extends [StoreMutatorIdentifier, unknown][] = [],
+  Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+  Flatten extends boolean = false,
+  Separator extends KeySeparator = '_'
+> = Namespace<
+  NamespaceFamilyState<T, Id, Flatten, Separator>,
+  Name,
+  [],
+  [],
+  Flatten,
+  Separator
+> & {
+  /**
+   * Creates the namespace for a member of the family.
+   */
+  createMember: (id: Id) => Namespace<T, Id, Mps, Mcs, Flatten, Separator>;
 };
+
+export type CreateNamespaceFamily = {
+  // inferred
+  <
+    T,
+    Name extends string,
+    Id extends string = string,
+    Mps extends [StoreMutatorIdentifier, unknown][] = [],
+    Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+    Flatten extends boolean = false,
+    Separator extends KeySeparator = '_'
+  >(
+    name: Name,
+    creator: (id: Id) => StateCreator<T, [...Mps, NamespaceAction], Mcs, T>,
+    options?: NamespaceOptions<Flatten, Separator, T>
+  ): NamespaceFamily<T, Name, Id, Mps, Mcs, Flatten, Separator>;
+  // explicit
+  <T>(): <
+    Name extends string,
+    Id extends string = string,
+    Mps extends [StoreMutatorIdentifier, unknown][] = [],
+    Mcs extends [StoreMutatorIdentifier, unknown][] = [],
+    Flatten extends boolean = false,
+    Separator extends KeySeparator = '_'
+  >(
+    name: Name,
+    creator: (id: Id) => StateCreator<T, [...Mps, NamespaceAction], Mcs>,
+    options?: NamespaceOptions<Flatten, Separator, T>
+  ) => NamespaceFamily<T, Name, Id, Mps, Mcs, Flatten, Separator>;
+};
+
+/**
+ * The hook for a member of a namespace family.
+ */
+export type NamespaceFamilyMember<
+  Family extends NamespaceFamily<any, string, any, any, any, any, any>,
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[],
+  T,
+  Id extends string,
+  Mcs extends [StoreMutatorIdentifier, unknown][],
+  F extends boolean,
+  S extends KeySeparator
+> = UseBoundNamespace<
+  StoreApi<T> &
+    MergeMs<StoreApi<T>, Mcs> &
+    WithAction<T> &
+    NamespaceApiExtensions &
+    SelectorSubscribe<T>,
+  [...Namespaces, Family, Namespace<T, Id, any, Mcs, F, S>]
+>;
+
+/**
+ * The accessor for the members of a namespace family, returned by `getNamespaceFamilyHooks`.
+ */
+export type UseNamespaceFamily<
+  Family extends NamespaceFamily<any, string, any, any, any, any, any>,
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[]
+> = Family extends {
+  createMember: (
+    id: infer Id extends string
+  ) => Namespace<infer T, any, any, infer Mcs, infer F, infer S>;
+}
+  ? {
+      /**
+       * Gets the hook for a member of the family. Throws if the member does not exist, as members are not
+       * created while rendering.
+       */
+      (id: Id): NamespaceFamilyMember<Family, Namespaces, T, Id, Mcs, F, S>;
+      /**
+       * Gets the hook for a member of the family, creating the member if it does not exist yet. Members are
+       * created outside of rendering (e.g. in an event handler), as creating one updates the store.
+       */
+      get: (
+        id: Id
+      ) => NamespaceFamilyMember<Family, Namespaces, T, Id, Mcs, F, S>;
+      /**
+       * The ids of the members that currently exist.
+       */
+      ids: () => Id[];
+      /**
+       * Removes a member and its state from the family.
+       */
+      dispose: (id: Id) => void;
+    }
+  : never;
+
+/**
+ * The family accessors returned by `getNamespaceFamilyHooks`, keyed by family name.
+ */
+export type NamespaceFamilyHooks<
+  Families extends readonly NamespaceFamily<
+    any,
+    string,
+    any,
+    any,
+    any,
+    any,
+    any
+  >[],
+  CurrentNamespaces extends readonly Namespace<
+    any,
+    string,
+    any,
+    any,
+    any,
+    any
+  >[] = []
+> = {
+  [Family in Families[number] as Family['name']]: UseNamespaceFamily<
+    Family,
+    CurrentNamespaces
+  >;
+};
+
+/**
+ * The state of each namespace that a derived value is computed from.
+ */
+export type DerivedStates<
+  State,
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[]
+> = {
+  [K in keyof Namespaces]: NamespacedState<State, [Namespaces[K]]>;
+};
+
+/**
+ * The hook returned by `createDerived`. When the value is kept in the store's state, the hook also has the store,
+ * typed with the derived key.
+ */
+export type UseDerived<U, Store = never> = {
+  (): U;
+  <V>(selector: (value: U) => V): V;
+  getState: () => U;
+  subscribe: (listener: (value: U, previousValue: U) => void) => () => void;
+} & ([Store] extends [never]
+  ? // eslint-disable-next-line
+    {}
+  : {
+      /**
+       * The store that the value is kept in, typed with its derived key.
+       */
+      store: Store;
+    });
+
+type AddDerivedKeyToApi<Api, K extends string, U> = Write<
+  Api,
+  StoreApi<ExtractState<Api> & { readonly [P in K]: U }>
+>;
+
+/**
+ * A store with a key that is derived by `createDerived`. The key is read-only, as the store refuses to set it.
+ */
+export type AddDerivedKey<S, K extends string, U> = S extends UseBoundStore<
+  infer Api extends StoreApi<any>
+>
+  ? UseBoundStore<AddDerivedKeyToApi<Api, K, U>>
+  : AddDerivedKeyToApi<S, K, U>;
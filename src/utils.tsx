@@ -1,14 +1,65 @@
-import { StateCreator, StoreApi, UseBoundStore } from 'zustand';
 import {
+  createContext,
+  ReactNode,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import {
+  create,
+  ExtractState,
+  StateCreator,
+  StoreApi,
+  StoreMutatorIdentifier,
+  UseBoundStore,
+  useStore,
+} from 'zustand';
+import { createJSONStorage, devtools } from 'zustand/middleware';
+import {
+  AddDerivedKey,
+  AddNamespace,
+  ApiPath,
+  ApiPathValue,
+  ContextNamespaceHooks,
   CreateNamespace,
+  CreateNamespaceFamily,
+  DefineNamespacedStore,
+  DehydrateOptions,
+  DerivedStates,
   FilterByPrefix,
+  DevtoolsAction,
+  KeyCodec,
+  KeySeparator,
   Namespace,
+  NamespaceApiExtensions,
+  NamespaceDescription,
+  NamespaceDescriptions,
+  NamespaceFamily,
+  NamespaceFamilyHooks,
+  NamespaceOptions,
   Namespaced,
+  NamespacePath,
+  NamespacePersistOptions,
   NamespacedState,
+  NamespaceHooks,
+  NamespaceMerge,
+  NamespaceStore,
+  NamespaceStoreOptions,
+  PersistNamespaces,
+  PersistNamespacesOptions,
   PrefixObject,
+  SelectorSubscribe,
+  SelectorSubscribeOptions,
+  SeparatorKeyCodec,
+  SetStateWithAction,
   ToNamespace,
   UnNamespacedState,
   UseBoundNamespace,
+  UseDerived,
+  UseNamespaceAtPath,
+  WithSelectors,
+  WithAction,
   WithNames,
 } from './types';
 
@@ -25,66 +76,86 @@ function getNamespacedApi<
 >(
   namespace: Namespace<ToNamespace<T, Name, F, S>, Name, any, any, F, S>,
   api: WithNames<StoreApi<T>>
-): WithNames<StoreApi<ToNamespace<T, Name, F, S>>> {
-  const namespacedApi: WithNames<StoreApi<ToNamespace<T, Name, F, S>>> = {
-    getInitialState: () => {
-      if (namespace.options?.flatten) {
-        return getUnprefixedObject(
-          namespace.name,
-          api.getInitialState(),
-          namespace.options?.separator ?? '_'
-        );
-      } else {
-        return (api.getInitialState() as any)?.[namespace.name] ?? {};
-      }
-    },
-    getState: () => {
-      if (namespace.options?.flatten) {
-        return getUnprefixedObject(
-          namespace.name,
-          api.getState(),
-          namespace.options?.separator ?? '_'
-        );
-      } else {
-        return (api.getState() as any)?.[namespace.name] ?? {};
-      }
-    },
-    setState: (state, replace) => {
-      namespacedApi._payload = {}; //payload isnt used, but stops namespaces from being traveresd too many times
+): WithNames<StoreApi<ToNamespace<T, Name, F, S>>> &
+  WithAction<ToNamespace<T, Name, F, S>> &
+  NamespaceApiExtensions &
+  SelectorSubscribe<ToNamespace<T, Name, F, S>> {
+  const selectParentState = getNamespaceStateSelector(namespace);
+  const selectInitialState = getNamespaceStateSelector(namespace);
+  const withPrivateState = getPrivateStateMerger();
+  const withInitialPrivateState = getPrivateStateMerger();
+  // the private keys are kept here instead of in the parent's state
+  const privateKeys = namespace.options?.private ?? [];
+  let privateState: Record<PropertyKey, unknown> = {};
+  let initialPrivateState = privateState;
+  const selectState = (state: any) =>
+    withPrivateState(selectParentState(state), privateState);
+  const cleanups = new Set<() => void>();
+  let mounted = false;
+  let destroyed = false;
+
+  const namespacedApi: WithNames<StoreApi<ToNamespace<T, Name, F, S>>> &
+    WithAction<ToNamespace<T, Name, F, S>> &
+    NamespaceApiExtensions &
+    SelectorSubscribe<ToNamespace<T, Name, F, S>> = {
+    getInitialState: () =>
+      withNamespaceInitialStates(
+        namespacedApi,
+        namespacedApi._getStoreInitialState!()
+      ),
+    getState: () => selectState(api.getState()),
+    setState: (state, replace, action?: DevtoolsAction) => {
       /**
        * Log is used for testing purposes. Specifically to test that the setState method is only called once per setState call.
        */
       console.debug(`test: setState_${namespace.name}`);
       const apiCurrentState = api.getState();
-      const currentState = namespace.options?.flatten
-        ? getUnprefixedObject(
-            namespace.name,
-            apiCurrentState,
-            namespace.options?.separator ?? '_'
-          )
-        : (apiCurrentState as any)[namespace.name] ?? {};
-      const updatedState =
+      const currentState = selectState(apiCurrentState);
+      let updatedState =
         typeof state === 'function' ? (state as any)(currentState) : state;
+      let mergedState = mergeNamespaceState(
+        namespace.options?.merge,
+        currentState,
+        updatedState
+      );
+
+      let nextPrivateState = privateState;
+      if (privateKeys.length) {
+        const pickedState = pickKeys(
+          replace ? updatedState : mergedState,
+          privateKeys
+        );
+        if (!isShallowEqual(pickedState, privateState)) {
+          nextPrivateState = pickedState;
+        }
+        // the parent is still set when only private keys change, so that the namespace's subscribers are notified
+        updatedState = omitKeys(updatedState, privateKeys);
+        mergedState = omitKeys(mergedState, privateKeys);
+      }
 
       const newState = namespace.options?.flatten
         ? getPrefixedObject(
             namespace.name,
-            updatedState,
-            namespace.options?.separator ?? '_'
+            // a merge option can change any key of the namespace, so all of them are set
+            namespace.options?.merge && !replace ? mergedState : updatedState,
+            getKeySeparator(namespace)
           )
         : {
-            [namespace.name]: {
-              ...currentState,
-              ...updatedState,
-            },
+            [namespace.name]: mergedState,
           };
 
-      if (api._payload) {
+      privateState = nextPrivateState;
+      namespacedApi._payload = {}; //payload isnt used, but stops namespaces from being traveresd too many times
+
+      // a replace removes the namespace's other keys, which a payload can not do
+      if (api._payload && !replace) {
         api._payload = {
           ...api._payload,
           ...newState,
         };
       } else {
+        const setParentState = api.setState as SetStateWithAction<T>;
+        const namespacedAction = getNamespacedAction(namespace.name, action);
         if (replace) {
           const replaceState = { ...apiCurrentState };
 
@@ -92,50 +163,87 @@ function getNamespacedApi<
             const specificToNamespace = getPrefixedObject(
               namespace.name,
               currentState,
-              namespace.options?.separator ?? '_'
+              getKeySeparator(namespace)
             );
-            for (const key in specificToNamespace) {
+            for (const key of Reflect.ownKeys(specificToNamespace)) {
               delete (replaceState as any)[key];
             }
           } else {
             newState[namespace.name] = updatedState;
           }
-          api.setState({ ...replaceState, ...newState } as T, replace as any);
+          setParentState(
+            { ...replaceState, ...newState } as T,
+            replace,
+            namespacedAction
+          );
         } else {
-          if (namespace.options?.flatten) {
-            api.setState(newState as T);
-          } else {
-            api.setState({
-              ...apiCurrentState,
-              ...newState,
-            } as T);
-          }
+          // only the namespace's keys are set, so that the parent only copies the objects along the namespace's path
+          setParentState(newState as T, false, namespacedAction);
         }
       }
       delete namespacedApi._payload;
     },
-    subscribe: (listener) => {
-      return api.subscribe((newState, oldState) => {
-        if (namespace.options?.flatten) {
-          listener(
-            getUnprefixedObject(
-              namespace.name,
-              newState,
-              namespace.options?.separator ?? '_'
-            ) as any,
-            getUnprefixedObject(
-              namespace.name,
-              oldState,
-              namespace.options?.separator ?? '_'
-            ) as any
-          );
-        } else {
-          listener(
-            (newState as any)?.[namespace.name] ?? {},
-            (oldState as any)?.[namespace.name] ?? {}
-          );
-        }
+    subscribe: (
+      selectorOrListener: any,
+      selectedListener?: (
+        selectedState: any,
+        previousSelectedState: any
+      ) => void,
+      options?: SelectorSubscribeOptions<any>
+    ) => {
+      // without a selector, the listener is called with the whole state of the namespace
+      const selector = selectedListener
+        ? selectorOrListener
+        : (state: any) => state;
+      const listener = selectedListener ?? selectorOrListener;
+      const equalityFn = options?.equalityFn ?? Object.is;
+      let previousState = selector(selectState(api.getState()));
+      if (options?.fireImmediately) listener(previousState, previousState);
+      const unsubscribe = api.subscribe((newState) => {
+        const nextState = selector(selectState(newState));
+        // only notify when the namespace's own (selected) state has changed
+        if (equalityFn(previousState, nextState)) return;
+        const lastState = previousState;
+        previousState = nextState;
+        listener(nextState, lastState);
       });
+      // the listener is unsubscribed when the namespace is destroyed
+      cleanups.add(unsubscribe);
+      return () => {
+        cleanups.delete(unsubscribe);
+        unsubscribe();
+      };
+    },
+    _selectState: selectState,
+    _getStoreInitialState: () =>
+      withInitialPrivateState(
+        selectInitialState(
+          api._getStoreInitialState?.() ?? api.getInitialState()
+        ),
+        initialPrivateState
+      ),
+    _initPrivateState: (state) => {
+      privateState = initialPrivateState = pickKeys(state, privateKeys);
+      return omitKeys(state, privateKeys);
+    },
+    _mount: () => {
+      if (mounted || destroyed) return;
+      mounted = true;
+      namespace.options?.onMount?.(namespacedApi);
+    },
+    _destroy: () => {
+      if (destroyed) return;
+      destroyed = true;
+      namespace.options?.onDestroy?.(namespacedApi);
+      cleanups.forEach((cleanup) => cleanup());
+      cleanups.clear();
+    },
+    _cleanups: cleanups,
+    reset: () => {
+      // the initial state has the keys of the namespace's own namespaces
+      allowNamespaceWrites(() =>
+        namespacedApi.setState(namespacedApi.getInitialState(), true)
+      );
     },
     namespaces: {},
     // build the path to the namespace
@@ -145,6 +253,286 @@ function getNamespacedApi<
   return namespacedApi;
 }
 
+/**
+ * Adds the initial state of each of an api's namespaces to the api's initial state. Namespaces that were added
+ * after the store was created are not part of the store's initial state, but they have their own.
+ * @param api The namespaced api
+ * @param initialState The api's initial state, from its parent's initial state
+ */
+function withNamespaceInitialStates(
+  api: WithNames<StoreApi<any>>,
+  initialState: any
+) {
+  let state = initialState;
+  for (const childApi of Object.values<WithNames<StoreApi<any>>>(
+    api.namespaces ?? {}
+  )) {
+    const childNamespace = getOwnNamespace(childApi);
+    const childInitialState = childApi.getInitialState();
+    // the state is only copied when a namespace is missing from it, so that it stays the same object
+    if (
+      isUnchanged(
+        getNamespaceState(state, childNamespace),
+        childInitialState,
+        childNamespace
+      )
+    )
+      continue;
+    state = {
+      ...state,
+      ...getParentState(childInitialState, childNamespace),
+    };
+  }
+  return state;
+}
+
+/**
+ * Returns a function that gets a namespace's state from its parent's state. For flattened namespaces the
+ * unprefixed state is cached, so the same object is returned for as long as the namespace's keys are unchanged.
+ * @param namespace The namespace to get the state of
+ */
+function getNamespaceStateSelector(
+  namespace: Namespace<any, string, any, any, any, any>
+) {
+  if (!namespace.options?.flatten) {
+    return (state: any) => state?.[namespace.name] ?? {};
+  }
+
+  let hasCache = false;
+  let lastState: any;
+  let lastNamespaceState: any;
+  return (state: any) => {
+    if (hasCache && Object.is(state, lastState)) return lastNamespaceState;
+    const namespaceState = getUnprefixedObject(
+      namespace.name,
+      state,
+      getKeySeparator(namespace)
+    );
+    if (!hasCache || !isShallowEqual(namespaceState, lastNamespaceState)) {
+      lastNamespaceState = namespaceState;
+    }
+    hasCache = true;
+    lastState = state;
+    return lastNamespaceState;
+  };
+}
+
+/**
+ * Returns a function that adds a namespace's private state to the state it has in its parent's state. The same
+ * object is returned for as long as both are unchanged, so that selectors of the namespace's state are stable.
+ */
+function getPrivateStateMerger() {
+  let lastState: any;
+  let lastPrivateState: Record<PropertyKey, unknown> | undefined;
+  let lastMergedState: any;
+  return (state: any, privateState: Record<PropertyKey, unknown>) => {
+    if (Reflect.ownKeys(privateState).length === 0) return state;
+    if (
+      !Object.is(state, lastState) ||
+      !Object.is(privateState, lastPrivateState)
+    ) {
+      lastState = state;
+      lastPrivateState = privateState;
+      lastMergedState = { ...state, ...privateState };
+    }
+    return lastMergedState;
+  };
+}
+
+/**
+ * Gets the keys of a state that are in a list of keys.
+ */
+function pickKeys(state: any, keys: readonly PropertyKey[]) {
+  const picked: Record<PropertyKey, unknown> = {};
+  for (const key of keys) {
+    if (key in state) picked[key as string] = state[key];
+  }
+  return picked;
+}
+
+/**
+ * Leaves a list of keys out of a state. The state itself is returned if it has none of the keys.
+ */
+function omitKeys(state: any, keys: readonly PropertyKey[]) {
+  if (!keys.some((key) => key in state)) return state;
+  const rest = { ...state };
+  for (const key of keys) {
+    delete rest[key];
+  }
+  return rest;
+}
+
+/**
+ * Gets the keys of a namespace that its parent does not see, and that are not persisted or serialized.
+ * @param namespace The namespace
+ */
+function getHiddenKeys(
+  namespace: Namespace<any, string, any, any, any, any>
+): readonly PropertyKey[] {
+  const { private: privateKeys = [], ephemeral = [] } = namespace.options ?? {};
+  return [...privateKeys, ...ephemeral];
+}
+
+/**
+ * Gets a namespaced api's state without the private and ephemeral keys of its namespace, or of its nested
+ * namespaces. This is the state that is persisted and serialized.
+ * @param api The namespaced api
+ * @param state The state of the namespace. Defaults to its current state
+ */
+function getPublicState(
+  api: WithNames<StoreApi<any>>,
+  state: any = api.getState()
+): any {
+  let publicState = omitKeys(state, getHiddenKeys(getOwnNamespace(api)));
+  for (const childApi of Object.values<WithNames<StoreApi<any>>>(
+    api.namespaces ?? {}
+  )) {
+    const childNamespace = getOwnNamespace(childApi);
+    const childState = getNamespaceState(state, childNamespace);
+    const publicChildState = getPublicState(childApi, childState);
+    if (publicChildState === childState) continue;
+    publicState = {
+      ...omitKeys(
+        publicState,
+        Reflect.ownKeys(getParentState(childState, childNamespace))
+      ),
+      ...getParentState(publicChildState, childNamespace),
+    };
+  }
+  return publicState;
+}
+
+/**
+ * Whether the state that a namespace is set with leaves it unchanged. A nested namespace is unchanged when it is
+ * set with its own state, and a flattened namespace when each of the keys it is set with has the same value.
+ * @param currentState The namespace's state
+ * @param namespaceState The state the namespace is set with
+ * @param namespace The namespace
+ */
+function isUnchanged(
+  currentState: any,
+  namespaceState: any,
+  namespace: Namespace<any, string, any, any, any, any>
+) {
+  if (!namespace.options?.flatten)
+    return Object.is(currentState, namespaceState);
+  for (const key in namespaceState) {
+    if (
+      !(key in currentState) ||
+      !Object.is(currentState[key], namespaceState[key])
+    )
+      return false;
+  }
+  return true;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Merges an update into a state, including nested plain objects. Arrays and other objects are replaced, and
+ * values that are not updated keep their identity.
+ */
+function deepMerge(current: unknown, update: unknown): unknown {
+  if (!isPlainObject(current) || !isPlainObject(update)) return update;
+  const merged: Record<string, unknown> = { ...current };
+  for (const key in update) {
+    merged[key] = deepMerge(current[key], update[key]);
+  }
+  return merged;
+}
+
+/**
+ * Merges an update into a namespace's state, with the namespace's merge option.
+ * @param merge The merge option of the namespace
+ * @param currentState The state of the namespace
+ * @param updatedState The update to merge into the state
+ */
+function mergeNamespaceState(
+  merge: NamespaceMerge<any> | undefined,
+  currentState: any,
+  updatedState: any
+) {
+  if (typeof merge === 'function') return merge(currentState, updatedState);
+  if (merge === 'deep') return deepMerge(currentState, updatedState);
+  return { ...currentState, ...updatedState };
+}
+
+function isShallowEqual(a: any, b: any) {
+  if (Object.is(a, b)) return true;
+  if (!a || !b) return false;
+  const keys = Reflect.ownKeys(a);
+  if (keys.length !== Reflect.ownKeys(b).length) return false;
+  return keys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key])
+  );
+}
+
+/**
+ * Prefixes a devtools action with the name of a namespace. Each namespace in the path adds its own
+ * name, so the action ends up labelled with the full path (e.g. namespace1/subNamespace/setData).
+ * @param name The name of the namespace
+ * @param action The action passed to setState, if any
+ */
+function getNamespacedAction(
+  name: string,
+  action: DevtoolsAction | undefined
+): DevtoolsAction {
+  if (action === undefined) return name;
+  if (typeof action === 'string') return `${name}/${action}`;
+  return { ...action, type: `${name}/${action.type}` };
+}
+
+/**
+ * Gets the namespace that a namespaced api was created from.
+ * @param api The namespaced api
+ */
+function getOwnNamespace(api: WithNames<StoreApi<any>>) {
+  return api.namespacePath![api.namespacePath!.length - 1];
+}
+
+/**
+ * Gets every namespaced api below an api, with parents before their children.
+ * @param api The api to get the namespaces of
+ */
+function getNamespaceTree(
+  api: WithNames<StoreApi<any>>
+): WithNames<StoreApi<any>>[] {
+  return Object.values<WithNames<StoreApi<any>>>(api.namespaces ?? {}).flatMap(
+    (namespaceApi) => [namespaceApi, ...getNamespaceTree(namespaceApi)]
+  );
+}
+
+/**
+ * Gets the keys of a namespace's state that belong to the namespace itself, leaving out the keys of its
+ * nested (or flattened) namespaces.
+ * @param api The namespaced api
+ * @param state The state of the namespace
+ */
+function getOwnState(
+  api: WithNames<StoreApi<any>>,
+  state: Record<string, unknown>
+) {
+  const ownState = { ...state };
+  for (const childApi of Object.values<WithNames<StoreApi<any>>>(
+    api.namespaces ?? {}
+  )) {
+    const childNamespace = getOwnNamespace(childApi);
+    const childState = getParentState(
+      getNamespaceState(state, childNamespace),
+      childNamespace
+    );
+    for (const key of Reflect.ownKeys(childState)) {
+      delete ownState[key as string];
+    }
+  }
+  return ownState;
+}
+
 export function transformStateCreatorArgs<
   N extends string,
   State extends object,
@@ -171,48 +559,312 @@ export function transformStateCreatorArgs<
   return [newApi.setState, newApi.getState, newApi];
 }
 
+const separatorKeyCodecs = new Map<string, SeparatorKeyCodec>();
+
+/**
+ * Creates a key codec that joins the name of a flattened namespace and its keys with a separator
+ * (e.g. namespace1_key). This is how flattened namespaces are keyed by default.
+ * @param separator The separator, which can be longer than one character
+ */
+export function separatorKeyCodec<S extends string>(
+  separator: S
+): SeparatorKeyCodec<S> {
+  return {
+    id: 'separator',
+    separator,
+    encode: (name, key) => `${name}${separator}${key}`,
+    decode: (name, key) =>
+      typeof key === 'string' && key.startsWith(`${name}${separator}`)
+        ? key.slice(name.length + separator.length)
+        : undefined,
+  };
+}
+
+/**
+ * A key codec that joins the name of a flattened namespace and its keys in camel case (e.g. namespace1Key).
+ */
+export const camelCaseKeyCodec: KeyCodec<'camelCase'> = {
+  id: 'camelCase',
+  encode: (name, key) => `${name}${key.charAt(0).toUpperCase()}${key.slice(1)}`,
+  decode: (name, key) => {
+    if (typeof key !== 'string' || !key.startsWith(name)) return undefined;
+    const rest = key.slice(name.length);
+    const first = rest.charAt(0);
+    // the key of the namespace starts at an uppercase letter
+    if (first === first.toLowerCase()) return undefined;
+    return `${first.toLowerCase()}${rest.slice(1)}`;
+  },
+};
+
+/**
+ * A key codec that keys a flattened namespace with symbols from the global symbol registry, so that its keys
+ * are left out of string keyed operations (e.g. `Object.keys` and `JSON.stringify`) on its parent's state.
+ */
+export const symbolKeyCodec: KeyCodec<'symbol'> = {
+  id: 'symbol',
+  encode: (name, key) => Symbol.for(`zustand-namespaces/${name}/${key}`),
+  decode: (name, key) => {
+    const description =
+      typeof key === 'symbol' ? Symbol.keyFor(key) : undefined;
+    const prefix = `zustand-namespaces/${name}/`;
+    return description?.startsWith(prefix)
+      ? description.slice(prefix.length)
+      : undefined;
+  },
+};
+
+/**
+ * Gets the codec for a separator, or the codec itself.
+ * @param separator The separator or codec of a flattened namespace
+ */
+function toKeyCodec(separator: KeySeparator): KeyCodec {
+  if (typeof separator !== 'string') return separator;
+  let codec = separatorKeyCodecs.get(separator);
+  if (!codec) {
+    codec = separatorKeyCodec(separator);
+    separatorKeyCodecs.set(separator, codec);
+  }
+  return codec;
+}
+
+/**
+ * Gets the separator, or codec, that a namespace is flattened with.
+ * @param namespace The namespace
+ */
+function getKeySeparator(
+  namespace: Namespace<any, string, any, any, any, any>
+): KeySeparator {
+  return namespace.options?.keyCodec ?? namespace.options?.separator ?? '_';
+}
+
+/**
+ * The keys that a codec has encoded and decoded for a namespace, so that each key is only encoded or decoded once.
+ */
+type KeyMap = {
+  encoded: Map<string, string | symbol>;
+  decoded: Map<string | symbol, string | undefined>;
+};
+
+const keyMaps = new WeakMap<KeyCodec, Map<string, KeyMap>>();
+
+// the maps are cleared when they grow past this size, so stores with changing keys do not keep every key
+const maxKeyMapSize = 10000;
+
+/**
+ * Gets the key map of a namespace's keys, creating it the first time the namespace is encoded or decoded.
+ * @param name The name of the namespace
+ * @param codec The codec of the namespace
+ */
+function getKeyMap(name: string, codec: KeyCodec): KeyMap {
+  let codecKeyMaps = keyMaps.get(codec);
+  if (!codecKeyMaps) {
+    codecKeyMaps = new Map();
+    keyMaps.set(codec, codecKeyMaps);
+  }
+  let keyMap = codecKeyMaps.get(name);
+  if (!keyMap) {
+    keyMap = { encoded: new Map(), decoded: new Map() };
+    codecKeyMaps.set(name, keyMap);
+  }
+  return keyMap;
+}
+
+function encodeKey(name: string, codec: KeyCodec, key: string) {
+  const { encoded } = getKeyMap(name, codec);
+  let encodedKey = encoded.get(key);
+  if (encodedKey === undefined) {
+    if (encoded.size >= maxKeyMapSize) encoded.clear();
+    encodedKey = codec.encode(name, key);
+    // a key that does not decode to itself would be left out of the namespace's state, or taken for another key
+    if (decodeKey(name, codec, encodedKey) !== key)
+      throw new Error(
+        `Key ${key} of namespace ${name} cannot be encoded with the ${codec.id} key codec`
+      );
+    encoded.set(key, encodedKey);
+  }
+  return encodedKey;
+}
+
+function decodeKey(name: string, codec: KeyCodec, key: string | symbol) {
+  const { decoded } = getKeyMap(name, codec);
+  if (decoded.has(key)) return decoded.get(key);
+  if (decoded.size >= maxKeyMapSize) decoded.clear();
+  const decodedKey = codec.decode(name, key);
+  decoded.set(key, decodedKey);
+  return decodedKey;
+}
+
 export function getPrefixedObject<
   T extends string,
   O extends object,
-  S extends string
+  S extends KeySeparator
 >(typePrefix: T, obj: O | undefined, separator: S) {
   if (!obj) return undefined as unknown as PrefixObject<T, O, S>;
-  return Object.entries(obj).reduce((acc, [key, value]) => {
-    return {
-      ...acc,
-      [`${typePrefix}${separator}${key}`]: value,
-    };
-  }, {} as PrefixObject<T, O, S>);
+  const codec = toKeyCodec(separator);
+  const prefixed: any = {};
+  for (const key in obj) {
+    prefixed[encodeKey(typePrefix, codec, key)] = obj[key];
+  }
+  return prefixed as PrefixObject<T, O, S>;
 }
 
 export function getUnprefixedObject<
   T extends string,
   Data extends object,
-  S extends string
+  S extends KeySeparator
 >(typePrefix: T, obj: Data | undefined, separator: S) {
   if (!obj) return undefined as unknown as FilterByPrefix<T, Data, S>;
-  return Object.entries(obj).reduce((acc, [key, value]) => {
-    if (key.startsWith(`${typePrefix}${separator}`)) {
-      return {
-        ...acc,
-        [key.slice(typePrefix.length + 1)]: value,
-      };
+  const codec = toKeyCodec(separator);
+  const unprefixed: any = {};
+  // keys can be symbols, depending on the codec
+  for (const key of Reflect.ownKeys(obj)) {
+    const namespaceKey = decodeKey(typePrefix, codec, key);
+    if (namespaceKey !== undefined) {
+      unprefixed[namespaceKey] = (obj as any)[key];
+    }
+  }
+  return unprefixed as FilterByPrefix<T, Data, S>;
+}
+
+/**
+ * Gets the namespace that a key of its parent's state belongs to. A flattened namespace owns every key that
+ * starts with its prefix.
+ * @param namespaces The namespaces of the parent
+ * @param key The key of the parent's state
+ */
+function getKeyOwner(namespaces: readonly Namespace[], key: string | symbol) {
+  return namespaces.find((namespace) => ownsKey(namespace, key));
+}
+
+/**
+ * Whether a key of a parent's state belongs to a namespace.
+ * @param namespace The namespace
+ * @param key The key of the parent's state
+ */
+function ownsKey(namespace: Namespace, key: string | symbol) {
+  return namespace.options?.flatten
+    ? decodeKey(namespace.name, toKeyCodec(getKeySeparator(namespace)), key) !==
+        undefined
+    : key === namespace.name;
+}
+
+/**
+ * The number of `allowNamespaceWrites` calls in progress.
+ */
+let namespaceWritesAllowed = 0;
+
+/**
+ * Runs a function in which writes from a parent to the keys of its namespaces are allowed, even in strict stores
+ * (e.g. to restore a saved state).
+ * @param fn The function that writes to the namespaces
+ * @returns The value returned by the function
+ */
+export function allowNamespaceWrites<R>(fn: () => R): R {
+  namespaceWritesAllowed++;
+  try {
+    return fn();
+  } finally {
+    namespaceWritesAllowed--;
+  }
+}
+
+/**
+ * Throws if a strict parent is written to outside of `allowNamespaceWrites`, with keys of one of its namespaces.
+ * @param api The parent's api
+ * @param namespaceApi The api of the namespace that is written to
+ */
+function assertNamespaceWriteAllowed(
+  api: WithNames<StoreApi<any>>,
+  namespaceApi: WithNames<StoreApi<any>>
+) {
+  if (!api._strict || namespaceWritesAllowed) return;
+  throw new Error(
+    `Cannot write to namespace ${getPathName(
+      namespaceApi
+    )} from its parent outside of allowNamespaceWrites`
+  );
+}
+
+/**
+ * Gets the path of a namespaced api as the names of its namespaces (e.g. namespace1/subNamespace).
+ */
+function getPathName(api: WithNames<StoreApi<any>>) {
+  return (api.namespacePath ?? []).map(({ name }) => name).join('/');
+}
+
+/**
+ * Throws if namespaces share a name, or if the keys that a namespace adds to its parent's state belong to
+ * another namespace.
+ * @param namespaceStates Each namespace with the state it adds to its parent's state
+ */
+function assertNoNamespaceCollisions(
+  namespaceStates: [Namespace, Record<string, unknown>][]
+) {
+  const names = new Set<string>();
+  for (const [namespace] of namespaceStates) {
+    if (names.has(namespace.name))
+      throw new Error(`Namespace ${namespace.name} is defined more than once`);
+    names.add(namespace.name);
+  }
+
+  for (const [namespace, state] of namespaceStates) {
+    const others = namespaceStates
+      .map(([other]) => other)
+      .filter((other) => other !== namespace);
+    for (const key of Reflect.ownKeys(state)) {
+      const owner = getKeyOwner(others, key);
+      if (owner)
+        throw new Error(
+          `Key ${String(key)} of namespace ${
+            namespace.name
+          } collides with namespace ${owner.name}`
+        );
     }
-    return acc;
-  }, {} as FilterByPrefix<T, Data, S>);
+  }
+}
+
+/**
+ * Throws if the parent's own keys belong to one of its namespaces. The parent spreads the state of its
+ * namespaces, so any other value for a namespace's key would overwrite it.
+ * @param namespaces The namespaces of the parent
+ * @param namespaceState The state that the namespaces add to the parent's state
+ * @param parentState The parent's state
+ */
+function assertNoParentCollisions(
+  namespaces: readonly Namespace[],
+  namespaceState: Record<PropertyKey, unknown>,
+  parentState: Record<PropertyKey, unknown>
+) {
+  for (const key of Reflect.ownKeys(parentState)) {
+    const owner = getKeyOwner(namespaces, key);
+    if (
+      owner &&
+      (!(key in namespaceState) || parentState[key] !== namespaceState[key])
+    )
+      throw new Error(
+        `Key ${String(key)} collides with namespace ${owner.name}`
+      );
+  }
 }
 
 /**
  * This function will take a list of namespaces and a callback and return the spread data from the callback.
+ * Throws if the namespaces collide.
  */
 function spreadNamespaces<Namespaces extends readonly Namespace[], Data>(
   namespaces: Namespaces,
   callback: (namespace: Namespaces[number]) => Data
 ) {
-  return namespaces.reduce((acc, namespace) => {
+  const namespaceStates = namespaces.map(
+    (namespace) =>
+      [namespace, callback(namespace)] as [Namespace, Record<string, unknown>]
+  );
+  assertNoNamespaceCollisions(namespaceStates);
+
+  return namespaceStates.reduce((acc, [, state]) => {
     return {
       ...acc,
-      ...callback(namespace),
+      ...state,
     };
   }, {} as Data);
 }
@@ -229,25 +881,20 @@ function transformCallback<State extends object>(
     const originalApi = args[2] as WithNames<StoreApi<State>>;
     const [set, get, api] = transformStateCreatorArgs(namespace, ...args);
 
-    // Add the namespace to the api
-    Object.assign(originalApi, {
-      namespaces: {
-        ...originalApi.namespaces,
-        [namespace.name]: api,
-      },
-    });
+    // Add the namespace to the api. This is done in place so that hooks sharing the
+    // namespaces object see namespaces that are added or removed later on.
+    originalApi.namespaces[namespace.name] = api;
 
-    if (namespace.options?.flatten) {
-      return getPrefixedObject(
-        namespace.name,
-        namespace.creator(set, get, api) as any,
-        namespace.options?.separator ?? '_'
-      );
-    } else {
-      return {
-        [namespace.name]: namespace.creator(set, get, api),
-      };
-    }
+    const namespacedApi = api as WithNames<typeof api> &
+      WithAction<ToNamespace<State, N, F, S>> &
+      NamespaceApiExtensions;
+    const state = namespace.creator(set, get, api);
+    const parentState = getParentState(
+      namespacedApi._initPrivateState!(state),
+      namespace
+    );
+    namespace.options?.onInit?.(namespacedApi);
+    return parentState;
   };
 }
 
@@ -266,42 +913,12 @@ export function getNamespaceHooks<
   store: UseBoundStore<S> | UseBoundNamespace<S, CurrentNamespaces>,
   ...namespaces: Namespaces
 ) {
-  return namespaces.reduce(
-    (acc, namespace) => {
-      return {
-        ...acc,
-        [namespace.name]: getOneNamespaceHook(store, namespace),
-      };
-    },
-    {} as {
-      [NewNamespace in Namespaces[number] as NewNamespace extends Namespace<
-        any,
-        infer N,
-        any,
-        any,
-        any,
-        any
-      >
-        ? N extends string
-          ? N
-          : never
-        : never]: NewNamespace extends Namespace<
-        infer T,
-        infer N,
-        any,
-        any,
-        any,
-        any
-      >
-        ? UseBoundNamespace<
-            N extends keyof S['namespaces']
-              ? S['namespaces'][N] & StoreApi<T>
-              : never,
-            [...CurrentNamespaces, NewNamespace]
-          >
-        : never;
-    }
-  );
+  return namespaces.reduce((acc, namespace) => {
+    return {
+      ...acc,
+      [namespace.name]: getOneNamespaceHook(store, namespace),
+    };
+  }, {} as NamespaceHooks<S, Namespaces, CurrentNamespaces>);
 }
 
 function getOneNamespaceHook<
@@ -322,7 +939,7 @@ function getOneNamespaceHook<
   >;
   const hook = ((selector) => {
     return useStore((state) => {
-      return selector(toNamespace(state, namespace) as any);
+      return selector(originalApi._selectState!(state));
     });
   }) as BoundStore;
 
@@ -332,46 +949,174 @@ function getOneNamespaceHook<
 
   if (!originalApi) throw new Error('Namespace not found');
   return Object.assign(hook, originalApi, {
-    getRawState: () => {
-      return fromNamespace(
-        originalApi.getState(),
-        ...(originalApi.namespacePath ?? [])
-      );
-    },
+    getRawState: () => getRawState(originalApi),
   });
 }
 
 /**
- * Helper method for going from a state to a namespace.
- * @param state The state of the store
- * @param namespaces The namespace(s) to go to. If multiple namespaces are provided, the last namespace will be the one returned.
- * @returns The namespace state
+ * Gets the state of a namespaced api as it is in the root store, without its private and ephemeral keys.
+ * @param api The namespaced api
  */
-export function toNamespace<
-  State,
-  Namespaces extends readonly Namespace<any, string, any, any, any, any>[]
->(state: State, ...namespaces: Namespaces): NamespacedState<State, Namespaces> {
-  let current: any = state;
-  for (let i = 0; i < namespaces.length; i++) {
-    const namespace = namespaces[i];
-    if (namespace.options?.flatten) {
-      current = getUnprefixedObject(
-        namespace.name,
-        current,
-        namespace.options?.separator ?? '_'
-      );
-    } else {
-      current = current?.[namespace.name] ?? {};
-    }
+function getRawState(api: WithNames<StoreApi<any>>) {
+  return fromNamespace(getPublicState(api), ...(api.namespacePath ?? []));
+}
+
+/**
+ * Adds a selector hook for each key of the state of a hook, so that `useNamespaceA.use.dataInNamespaceA()` can
+ * be used instead of `useNamespaceA((state) => state.dataInNamespaceA)`. The keys are those of the state when
+ * the selectors are created.
+ * @param hook The namespace hook (or bound store) to add the selector hooks to
+ * @returns The hook, with a `use` object of selector hooks
+ */
+export function createSelectors<H extends UseBoundStore<StoreApi<any>>>(
+  hook: H
+): WithSelectors<H> {
+  const use: Record<PropertyKey, () => unknown> = {};
+  for (const key of Object.keys(hook.getState())) {
+    use[key] = () => hook((state: any) => state[key]);
   }
-  return current;
+  return Object.assign(hook, { use }) as WithSelectors<H>;
 }
 
 /**
- * Helper method for going to a state from a namespace.
- *  * @param state The state of the store
- * @param namespaces The namespace(s) to come from.
- * @returns The namespace state
+ * Gets the hook of a namespace from a dot separated path of namespace names (e.g. 'namespace1.subNamespace1'),
+ * instead of getting the hooks of each namespace along the way.
+ * @param store The namespaced store (or namespace hook) that the path starts from
+ * @param path The path of the namespace
+ * @returns The hook of the namespace
+ */
+export function getNamespaceByPath<
+  S extends StoreApi<any> & { namespaces: any },
+  P extends NamespacePath<S>
+>(store: UseBoundStore<S>, path: P): UseNamespaceAtPath<S, P> {
+  return path.split('.').reduce((hook: any, name) => {
+    const namespaceApi: WithNames<StoreApi<any>> | undefined =
+      hook.namespaces?.[name];
+    if (!namespaceApi) throw new Error('Namespace not found');
+    return getOneNamespaceHook(hook, getOwnNamespace(namespaceApi));
+  }, store);
+}
+
+/**
+ * Splits a path into the api of the last namespace in it, and the keys of that namespace's state.
+ */
+function resolveApiPath(store: StoreApi<any>, path: readonly string[]) {
+  let api = store as WithNames<StoreApi<any>>;
+  let index = 0;
+  while (index < path.length && api.namespaces?.[path[index]]) {
+    api = api.namespaces[path[index]];
+    index++;
+  }
+  return { api, keys: path.slice(index) };
+}
+
+/**
+ * Returns a copy of a value with the value at a path replaced.
+ */
+function setPath(current: any, keys: readonly string[], value: unknown): any {
+  if (keys.length === 0) return value;
+  const [key, ...rest] = keys;
+  const copy = Array.isArray(current) ? [...current] : { ...current };
+  copy[key] = setPath(current?.[key], rest, value);
+  return copy;
+}
+
+/**
+ * Gets a value from a path of namespace names followed by keys of the namespace's state
+ * (e.g. ['namespace1', 'subNamespace1', 'data']). Nested and flattened namespaces are both supported.
+ * @param store The namespaced store (or namespace hook) that the path starts from
+ * @param path The path of the value
+ * @returns The value at the path
+ */
+export function getIn<S extends StoreApi<any>, const P extends ApiPath<S>>(
+  store: S,
+  path: P
+): ApiPathValue<S, P> {
+  const { api, keys } = resolveApiPath(store, path);
+  return keys.reduce((value: any, key) => value?.[key], api.getState());
+}
+
+/**
+ * Sets a value at a path of namespace names followed by keys of the namespace's state
+ * (e.g. ['namespace1', 'subNamespace1', 'data']). The value is set through the namespace's api.
+ * @param store The namespaced store (or namespace hook) that the path starts from
+ * @param path The path of the value
+ * @param value The value to set
+ */
+export function setIn<S extends StoreApi<any>, const P extends ApiPath<S>>(
+  store: S,
+  path: P,
+  value: ApiPathValue<S, P>
+) {
+  const { api, keys } = resolveApiPath(store, path);
+  if (keys.length === 0) {
+    api.setState(value);
+    return;
+  }
+  const [key, ...rest] = keys;
+  api.setState((state: any) => ({ [key]: setPath(state[key], rest, value) }));
+}
+
+/**
+ * Gets a namespace's state from its parent's state, including its ephemeral keys.
+ * @param state The parent's state
+ * @param namespace The namespace
+ */
+function getNamespaceState(
+  state: any,
+  namespace: Namespace<any, string, any, any, any, any>
+): any {
+  if (namespace.options?.flatten) {
+    return getUnprefixedObject(
+      namespace.name,
+      state,
+      getKeySeparator(namespace)
+    );
+  }
+  return state?.[namespace.name] ?? {};
+}
+
+/**
+ * Gets the keys of a parent's state for a namespace's state, including its ephemeral keys.
+ * @param state The namespace's state
+ * @param namespace The namespace
+ */
+function getParentState(
+  state: any,
+  namespace: Namespace<any, string, any, any, any, any>
+): any {
+  if (namespace.options?.flatten) {
+    return getPrefixedObject(namespace.name, state, getKeySeparator(namespace));
+  }
+  return { [namespace.name]: state };
+}
+
+/**
+ * Helper method for going from a state to a namespace. The private and ephemeral keys of the namespaces are left out.
+ * @param state The state of the store
+ * @param namespaces The namespace(s) to go to. If multiple namespaces are provided, the last namespace will be the one returned.
+ * @returns The namespace state
+ */
+export function toNamespace<
+  State,
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[]
+>(state: State, ...namespaces: Namespaces): NamespacedState<State, Namespaces> {
+  let current: any = state;
+  for (let i = 0; i < namespaces.length; i++) {
+    const namespace = namespaces[i];
+    current = omitKeys(
+      getNamespaceState(current, namespace),
+      getHiddenKeys(namespace)
+    );
+  }
+  return current;
+}
+
+/**
+ * Helper method for going to a state from a namespace. The private and ephemeral keys of the namespaces are left out.
+ *  * @param state The state of the store
+ * @param namespaces The namespace(s) to come from.
+ * @returns The namespace state
  */
 export function fromNamespace<
   State,
@@ -383,15 +1128,10 @@ export function fromNamespace<
   let current: any = state;
   for (let i = namespaces.length - 1; i >= 0; i--) {
     const namespace = namespaces[i];
-    if (namespace.options?.flatten) {
-      current = getPrefixedObject(
-        namespace.name,
-        current,
-        namespace.options?.separator ?? '_'
-      );
-    } else {
-      current = { [namespace.name]: current };
-    }
+    current = getParentState(
+      omitKeys(current, getHiddenKeys(namespace)),
+      namespace
+    );
   }
   return current;
 }
@@ -423,17 +1163,68 @@ export const createNamespace = ((one?: any, two?: any, options?: any) => {
 function getRootApi<Store extends object>(
   api: WithNames<StoreApi<Store>>
 ): WithNames<StoreApi<Store>> {
-  const originalSet = api.setState;
-  const setState: StoreApi<Store>['setState'] = (state, replace) => {
-    console.log('setState', state);
-    api._payload = {};
+  const originalSet = api.setState as SetStateWithAction<Store>;
+  const originalGet = api.getState;
+  // the batch in progress, if any. Its writes are held in the payload until it ends
+  let batch:
+    | { pending: any; replace?: boolean; action?: DevtoolsAction }
+    | undefined;
+
+  // while batching, the state includes the writes that have not been applied yet
+  const getState = () =>
+    batch
+      ? {
+          // a batch that replaces the state no longer has the keys it replaced
+          ...(batch.replace ? {} : originalGet()),
+          ...batch.pending,
+          ...api._payload,
+        }
+      : originalGet();
 
+  /**
+   * Computes the derived keys of the next state and applies it to the store.
+   */
+  const commit = (
+    nextState: any,
+    replace: boolean | undefined,
+    action: DevtoolsAction | undefined
+  ) => {
+    // derived keys are computed from the next state so that they are part of the same update
+    let derivedFrom: any;
+    for (const key in api._derived) {
+      derivedFrom ??= replace ? nextState : { ...originalGet(), ...nextState };
+      // later derived keys see the keys derived before them
+      nextState[key] = derivedFrom[key] = api._derived[key](derivedFrom);
+    }
+
+    originalSet(nextState, replace, action);
+  };
+
+  const setState: SetStateWithAction<Store> = (state, replace, action) => {
+    console.log('setState', state);
     const currentState = api.getState();
+    if (batch) batch.pending = replace ? {} : api._payload;
+    api._payload = {};
 
     let newState = typeof state === 'function' ? state(currentState) : state;
 
     newState = { ...newState };
 
+    // derived keys are only ever set by the store itself. They are recomputed when the update is committed, so
+    // a state that is restored (e.g. one saved earlier) can still have them
+    for (const key in api._derived) {
+      if (!(key in newState)) continue;
+      if (
+        !replace &&
+        !Object.is((newState as any)[key], (currentState as any)[key])
+      ) {
+        if (batch) api._payload = batch.pending;
+        else delete api._payload;
+        throw new Error(`Cannot set derived key ${key}`);
+      }
+      delete (newState as any)[key];
+    }
+
     /**
      * This function will go through all the namespaces and apply their state to the payload.
      * It will then remove the keys from the newState that were applied to the payload.
@@ -446,59 +1237,130 @@ function getRootApi<Store extends object>(
     ) {
       for (const name in namespaces) {
         // break if there are not more keys to apply
-        if (Object.keys(newState).length === 0) break;
+        if (Reflect.ownKeys(newState).length === 0) break;
         const namespaceApi = namespaces[name];
         // Skip if the namespace has already been applied
         if (namespaceApi._payload) continue;
 
-        // Get the state to apply to the namespace
-        const namespaceState = toNamespace(
-          newState,
-          ...(namespaceApi?.namespacePath ?? [])
-        );
+        // Get the state to apply to the namespace. The state is relative to this api, so only
+        // the namespace's own segment of its path is used.
+        const namespace = getOwnNamespace(namespaceApi);
+        const namespaceState = getNamespaceState(newState, namespace);
         // if there are no keys to call setState with, continue
-        if (Object.keys(namespaceState).length === 0) continue;
+        if (Reflect.ownKeys(namespaceState).length === 0) continue;
+        // unchanged namespaces keep their state, and are left as they are in the new state
+        // nested namespaces are compared with their slice, as their own state also has their private keys
+        const namespaceCurrentState = namespace.options?.flatten
+          ? namespaceApi.getState()
+          : getNamespaceState(currentState, namespace);
+        if (isUnchanged(namespaceCurrentState, namespaceState, namespace))
+          continue;
+        assertNamespaceWriteAllowed(api, namespaceApi);
         namespaceApi.setState(namespaceState);
 
         // Get the keys that were applied to the namespace
-        const originalState = fromNamespace(
-          namespaceState,
-          ...(namespaceApi.namespacePath ?? [])
-        );
+        const originalState = getParentState(namespaceState, namespace);
 
         // remove the keys that were applied to the namespace
-        for (const key in originalState) {
+        for (const key of Reflect.ownKeys(originalState)) {
           delete newState[key];
         }
       }
     }
 
     // Build the payload from the namespaces
-    callSetOnNamespaces(newState, api.namespaces);
+    try {
+      callSetOnNamespaces(newState, api.namespaces);
+    } catch (error) {
+      if (batch) api._payload = batch.pending;
+      else delete api._payload;
+      throw error;
+    }
 
     const payload = api._payload;
     console.log('payload', payload);
 
     // merge the remaining keys that were not applied to the namespaces and the payload from the namespaces
-    originalSet(
-      {
-        ...newState,
-        ...payload,
-      },
-      replace as any
-    );
+    const nextState = {
+      ...newState,
+      ...payload,
+    };
+
+    // inside a batch, the update is added to the payload and applied when the batch ends
+    if (batch) {
+      api._payload = { ...batch.pending, ...nextState };
+      batch.pending = {};
+      batch.replace ||= replace;
+      batch.action = action ?? batch.action;
+      return;
+    }
+
+    commit(nextState, replace, action);
     // remove the payload so that it is not applied again
     delete api._payload;
   };
 
+  const runBatch = <R,>(fn: () => R): R => {
+    // nested batches are part of the outer batch
+    if (batch) return fn();
+
+    batch = { pending: {} };
+    api._payload = {};
+    let result: R;
+    try {
+      result = fn();
+    } catch (error) {
+      // the writes of a failed batch are discarded
+      batch = undefined;
+      delete api._payload;
+      throw error;
+    }
+
+    const { replace, action } = batch;
+    batch = undefined;
+    if (Reflect.ownKeys(api._payload).length > 0 || replace) {
+      commit({ ...api._payload }, replace, action);
+    }
+    delete api._payload;
+    return result;
+  };
+
   return Object.assign(api, {
+    getState,
     setState,
+    _batch: runBatch,
+    _api: api,
+  });
+}
+
+/**
+ * Mounts the namespaces of an api once its state has been set on the store, which happens after the state
+ * creator returns.
+ * @param api The api that the namespaces were added to
+ */
+function mountNamespaces(api: WithNames<StoreApi<any>>) {
+  queueMicrotask(() => {
+    for (const namespaceApi of Object.values<WithNames<StoreApi<any>>>(
+      api.namespaces
+    )) {
+      namespaceApi._mount?.();
+    }
   });
 }
 
+/**
+ * Tears down namespaced apis in reverse order, so that children are destroyed before their parents.
+ * @param apis The namespaced apis, with parents before their children
+ */
+function destroyNamespaceApis(apis: WithNames<StoreApi<any>>[]) {
+  for (const namespaceApi of [...apis].reverse()) {
+    namespaceApi._destroy?.();
+  }
+}
+
 export const namespaced = ((one?: any, two?: any) => {
   if (!two) {
-    const { namespaces } = one;
+    const { namespaces, strict } = one;
     return (
       _: StoreApi<any>['setState'],
       __: StoreApi<any>['getState'],
@@ -506,6 +1368,8 @@ export const namespaced = ((one?: any, two?: any) => {
     ) => {
       const apiWithNamespaces = Object.assign(api, {
         namespaces: {},
+        _derived: {},
+        _strict: strict,
       });
 
       const rootApi = getRootApi(apiWithNamespaces);
@@ -516,12 +1380,14 @@ export const namespaced = ((one?: any, two?: any) => {
           transformCallback(rootApi.setState, rootApi.getState, rootApi)
         ),
       };
+      mountNamespaces(rootApi);
       return data;
     };
   } else {
     const callback = one as (state: any) => StateCreator<any>;
-    const { namespaces } = two as {
+    const { namespaces, strict } = two as {
       namespaces: Namespace<any, string, any, any>[];
+      strict?: boolean;
     };
     return (
       _: StoreApi<any>['setState'],
@@ -530,17 +1396,998 @@ export const namespaced = ((one?: any, two?: any) => {
     ) => {
       const apiWithNamespaces = Object.assign(api, {
         namespaces: {},
+        _derived: {},
+        _strict: strict,
       });
 
       const rootApi = getRootApi(apiWithNamespaces);
-      return {
-        ...callback(
-          spreadNamespaces(
-            namespaces,
-            transformCallback(rootApi.setState, rootApi.getState, rootApi)
-          )
-        )(rootApi.setState, rootApi.getState, rootApi),
+      const namespaceState = spreadNamespaces(
+        namespaces,
+        transformCallback(rootApi.setState, rootApi.getState, rootApi)
+      );
+      const state = {
+        ...callback(namespaceState)(
+          rootApi.setState,
+          rootApi.getState,
+          rootApi
+        ),
       };
+      assertNoParentCollisions(namespaces, namespaceState, state);
+      mountNamespaces(rootApi);
+      return state;
     };
   }
 }) as Namespaced;
+
+/**
+ * Adds a namespace to a store that has already been created. The namespace's creator is run
+ * against the live store, its initial state is merged into the store and it is added to the
+ * store's namespaces so that root updates are routed to it.
+ * @param store The namespaced store (or namespace hook) to add the namespace to
+ * @param namespace The namespace to add
+ * @returns The same store, typed to include the new namespace
+ */
+export function addNamespace<
+  S extends StoreApi<any> & { namespaces: any },
+  NS extends Namespace<any, string, any, any, any, any>
+>(store: S, namespace: NS): AddNamespace<S, NS> {
+  const storeApi = store as unknown as WithNames<StoreApi<any>>;
+  // the namespace writes to its parent's api, so that its writes are part of the parent's updates
+  const api = storeApi._api ?? storeApi;
+  if (!api.namespaces) throw new Error('Store is not namespaced');
+  if (api.namespaces[namespace.name])
+    throw new Error(`Namespace ${namespace.name} already exists`);
+
+  const state = api.getState();
+  const namespaceStates = Object.values<WithNames<StoreApi<any>>>(
+    api.namespaces
+  ).map((namespaceApi) => {
+    const current = getOwnNamespace(namespaceApi);
+    return [
+      current,
+      getParentState(getNamespaceState(state, current), current),
+    ] as [Namespace, Record<string, unknown>];
+  });
+
+  const data = transformCallback(api.setState, api.getState, api)(namespace);
+  try {
+    assertNoNamespaceCollisions([...namespaceStates, [namespace, data]]);
+    assertNoParentCollisions([namespace], data, state);
+  } catch (error) {
+    delete api.namespaces[namespace.name];
+    throw error;
+  }
+  const namespaceApi: WithNames<StoreApi<any>> = api.namespaces[namespace.name];
+  // the namespace's state is not set yet, so it only has the private keys that the namespace keeps itself
+  const initialState = {
+    ...namespaceApi.getState(),
+    ...getNamespaceState(data, namespace),
+  };
+
+  // The store's initial state was captured before this namespace existed
+  namespaceApi._getStoreInitialState = () => initialState;
+  allowNamespaceWrites(() => api.setState(data));
+  namespaceApi._mount?.();
+
+  return store as unknown as AddNamespace<S, NS>;
+}
+
+/**
+ * Removes a namespace from a store. The namespace's state (nested or flattened) is removed from
+ * the store and the namespace will no longer receive updates from the root.
+ * @param store The namespaced store (or namespace hook) to remove the namespace from
+ * @param name The name of the namespace to remove
+ */
+export function removeNamespace<
+  S extends StoreApi<any> & { namespaces: any },
+  Name extends keyof S['namespaces'] & string
+>(store: S, name: Name) {
+  const api = store as unknown as WithNames<StoreApi<any>>;
+  const namespaceApi: WithNames<StoreApi<any>> | undefined =
+    api.namespaces?.[name];
+  if (!namespaceApi) throw new Error('Namespace not found');
+
+  const namespace = getOwnNamespace(namespaceApi);
+  destroyNamespaceApis([namespaceApi, ...getNamespaceTree(namespaceApi)]);
+  delete api.namespaces[name];
+
+  const state = { ...api.getState() };
+  if (namespace.options?.flatten) {
+    const namespaceState = getPrefixedObject(
+      namespace.name,
+      namespaceApi.getState(),
+      getKeySeparator(namespace)
+    );
+    for (const key of Reflect.ownKeys(namespaceState)) {
+      delete state[key];
+    }
+  } else {
+    delete state[namespace.name];
+  }
+  api.setState(state, true);
+}
+
+/**
+ * Tears down every namespace of a store, e.g. when the provider of a scoped store unmounts. Children are destroyed
+ * before their parents: each namespace's onDestroy is called, and the listeners registered through its api are
+ * unsubscribed. The store's state is kept.
+ * @param store The namespaced store (or namespace hook) to destroy the namespaces of
+ */
+export function destroy(store: StoreApi<any>) {
+  destroyNamespaceApis(getNamespaceTree(store as WithNames<StoreApi<any>>));
+}
+
+/**
+ * Creates a standalone store from a namespace, so that it can be used (e.g. tested) without the store it is
+ * part of. The namespace, including its nested namespaces and middleware, gets the same api it has when it is
+ * part of a store.
+ * @param namespace The namespace to create the store from
+ * @param options The state that overrides the namespace's initial state, and the state of the parent store
+ * @returns The namespace hook of the standalone store
+ */
+export function createNamespaceStore<
+  T,
+  Name extends string,
+  Mps extends [StoreMutatorIdentifier, unknown][],
+  Mcs extends [StoreMutatorIdentifier, unknown][],
+  F extends boolean,
+  S extends string,
+  P extends object = object
+>(
+  namespace: Namespace<T, Name, Mps, Mcs, F, S>,
+  options: NamespaceStoreOptions<T, P> = {}
+): NamespaceStore<Namespace<T, Name, Mps, Mcs, F, S>> {
+  const creator = namespaced({ namespaces: [namespace] }) as StateCreator<any>;
+  const useStore = create<any>((...args) => {
+    const state = creator(...args);
+    // The initial state is applied around namespaced, which does not let its root override a namespace
+    return {
+      ...options.parentState,
+      ...state,
+      ...getParentState(
+        { ...getNamespaceState(state, namespace), ...options.initialState },
+        namespace
+      ),
+    };
+  });
+
+  return getOneNamespaceHook(
+    useStore as UseBoundStore<StoreApi<any>>,
+    namespace as Namespace<any, Name, any, any, F, S>
+  ) as unknown as NamespaceStore<Namespace<T, Name, Mps, Mcs, F, S>>;
+}
+
+/**
+ * Mounts an existing store (e.g. one made with `create` or `createStore`) as a namespace. The namespace's state is
+ * kept in sync with the store both ways: updates to the store are set on the namespace, and updates to the
+ * namespace (from the root or elsewhere) are set on the store, so the store's own middleware (e.g. persist) keeps
+ * working.
+ * @param name The name of the namespace
+ * @param store The store to mount
+ * @param options The options of the namespace
+ * @returns The namespace, which is added to a store like any other namespace
+ */
+export function adoptStore<
+  S extends StoreApi<any>,
+  Name extends string,
+  F extends boolean = false,
+  Separator extends KeySeparator = '_'
+>(
+  name: Name,
+  store: S,
+  options?: NamespaceOptions<F, Separator, ExtractState<S>>
+): Namespace<ExtractState<S>, Name, [], [], F, Separator> {
+  return createNamespace<ExtractState<S>>()(
+    name,
+    (set, get, api) => {
+      // the states are compared, so that an update is not sent back to where it came from
+      const unsubscribe = store.subscribe((state) => {
+        if (!isShallowEqual(state, get())) set(state, true);
+      });
+      (api as WithNames<typeof api>)._cleanups?.add(unsubscribe);
+      api.subscribe((state) => {
+        if (!isShallowEqual(state, store.getState()))
+          store.setState(state, true);
+      });
+      return store.getState();
+    },
+    options
+  );
+}
+
+/**
+ * Resets namespaces to their initial state in a single update, so subscribers are only notified once.
+ * @param store The namespaced store (or namespace hook) that holds the namespaces
+ * @param namespaces The namespaces to reset. If none are provided, all of the store's namespaces are reset.
+ */
+export function resetNamespaces<
+  S extends StoreApi<any> & { namespaces: any },
+  Namespaces extends readonly Namespace<
+    any,
+    keyof S['namespaces'] & string,
+    any,
+    any,
+    any,
+    any
+  >[]
+>(store: S, ...namespaces: Namespaces) {
+  const api = store as unknown as WithNames<StoreApi<any>>;
+  const names = namespaces.length
+    ? namespaces.map((namespace) => namespace.name)
+    : Object.keys(api.namespaces ?? {});
+
+  const namespaceApis = names.map((name) => {
+    const namespaceApi:
+      | (WithNames<StoreApi<any>> & NamespaceApiExtensions)
+      | undefined = api.namespaces?.[name];
+    if (!namespaceApi) throw new Error('Namespace not found');
+    return namespaceApi;
+  });
+
+  // each namespace replaces its state, so keys added after it was created are removed
+  batch(store, () =>
+    namespaceApis.forEach((namespaceApi) => namespaceApi.reset())
+  );
+}
+
+/**
+ * Runs a function and applies all of the namespace updates it makes in a single root update, so subscribers
+ * are only notified once. Batches inside of the function are part of the outer batch. If the function throws,
+ * its updates are discarded.
+ * @param store The namespaced store (or namespace hook) to batch the updates of
+ * @param fn The function that updates the namespaces
+ * @returns The value returned by the function
+ */
+export function batch<R>(store: StoreApi<any>, fn: () => R): R {
+  const api = store as WithNames<StoreApi<any>>;
+  // stores that are not namespaced have nothing to collect
+  return api._batch ? api._batch(fn) : fn();
+}
+
+/**
+ * Defines a namespaced store without creating it. The returned factory creates a fresh instance of the store
+ * (with its own namespaces) each time it is called, so state is not shared between e.g. server requests or
+ * tests. Hooks for the namespaces are bound to an instance with `getNamespaceHooks`.
+ * @param options The namespaces of the store, and optionally the creator of its root state
+ */
+export const defineNamespacedStore = (({
+  namespaces,
+  root = (state: any) => () => state,
+}: {
+  namespaces: Namespace<any, string, any, any>[];
+  root?: (state: any) => StateCreator<any>;
+}) => {
+  const createStore = () => create(namespaced(root, { namespaces }));
+
+  return Object.assign(createStore, {
+    namespaces,
+    getNamespaceHooks: (
+      store: UseBoundStore<StoreApi<any> & { namespaces: any }>
+    ) => getNamespaceHooks(store, ...namespaces),
+  });
+}) as DefineNamespacedStore;
+
+/**
+ * Creates a React context that gives each provider its own instance of a namespaced store. This allows
+ * independent copies of the same store to be rendered side by side (e.g. for isolated tests or stories).
+ * The namespaces of a provider's store are destroyed when the provider unmounts.
+ * @param storeFactory Creates a new namespaced store for each provider
+ * @param namespaces The namespaces to create context-aware hooks for
+ */
+export function createNamespaceContext<
+  S extends StoreApi<any> & { namespaces: any },
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[]
+>(storeFactory: () => S, ...namespaces: Namespaces) {
+  type BoundStore = {
+    store: S;
+    hooks: NamespaceHooks<S, Namespaces>;
+  };
+  const Context = createContext<BoundStore | null>(null);
+
+  function Provider({ children }: { children?: ReactNode }) {
+    const mounted = useRef(false);
+    const [value] = useState<BoundStore>(() => {
+      const store = storeFactory();
+      function useProvidedStore(selector?: any) {
+        return useStore(store, selector);
+      }
+      return {
+        store,
+        hooks: getNamespaceHooks(
+          Object.assign(useProvidedStore, store) as UseBoundStore<S>,
+          ...namespaces
+        ),
+      };
+    });
+    useEffect(() => {
+      mounted.current = true;
+      return () => {
+        mounted.current = false;
+        // strict mode runs the effect again right away, which keeps the store
+        queueMicrotask(() => {
+          if (!mounted.current) destroy(value.store);
+        });
+      };
+    }, [value]);
+    return <Context.Provider value={value}>{children}</Context.Provider>;
+  }
+
+  function useBoundStore() {
+    const value = useContext(Context);
+    if (!value) throw new Error('Namespace provider not found');
+    return value;
+  }
+
+  /**
+   * Gets the store of the nearest provider.
+   */
+  function useStoreApi() {
+    return useBoundStore().store;
+  }
+
+  function useContextStore<U = ExtractState<S>>(
+    selector?: (state: ExtractState<S>) => U
+  ): U {
+    return useStore(useBoundStore().store, selector as any);
+  }
+
+  const hooks = namespaces.reduce((acc, namespace) => {
+    function useContextNamespace(selector?: any) {
+      return (useBoundStore().hooks as any)[namespace.name](selector);
+    }
+    function useApi() {
+      return (useBoundStore().hooks as any)[namespace.name];
+    }
+    return {
+      ...acc,
+      [namespace.name]: Object.assign(useContextNamespace, {
+        namespacePath: [namespace],
+        useApi,
+        getRawState: (store: S) => {
+          const namespaceApi: WithNames<StoreApi<any>> | undefined =
+            store.namespaces[namespace.name];
+          if (!namespaceApi) throw new Error('Namespace not found');
+          return getRawState(namespaceApi);
+        },
+      }),
+    };
+  }, {} as ContextNamespaceHooks<S, Namespaces>);
+
+  return {
+    Provider,
+    useStore: useContextStore,
+    useStoreApi,
+    hooks,
+  };
+}
+
+/**
+ * Zustand's devtools middleware for namespaced stores, used in place of `devtools` around `namespaced`.
+ * Updates are labelled with the path of the namespace that made them (e.g. namespace1/subNamespace/setData).
+ * State that is set from the devtools (e.g. "jump to state") is applied through the namespaces, so nested
+ * and flattened namespaces are restored without losing their actions.
+ */
+export const namespacedDevtools = ((
+  initializer: StateCreator<any>,
+  devtoolsOptions?: Parameters<typeof devtools>[1]
+) => {
+  return (
+    set: StoreApi<any>['setState'],
+    get: StoreApi<any>['getState'],
+    api: StoreApi<any>
+  ) => {
+    const namespacedApi = api as WithNames<StoreApi<any>>;
+    const setState = (state: any, replace?: any) => {
+      // updates from the namespaced store have already been applied to its namespaces
+      if (namespacedApi._payload || !namespacedApi.namespaces) {
+        set(state, replace);
+      } else {
+        // the state restores every namespace, which strict stores only allow from here
+        allowNamespaceWrites(() => namespacedApi.setState(state, replace));
+      }
+    };
+    return devtools(initializer, devtoolsOptions)(setState, get, api);
+  };
+}) as typeof devtools;
+
+function getNamespaceFamily(
+  name: string,
+  creator: (id: string) => StateCreator<any, any, any>,
+  options?: NamespaceOptions<boolean, KeySeparator>
+): NamespaceFamily<any, string, string, any, any, boolean, KeySeparator> {
+  return {
+    name,
+    // members are added to the family as they are accessed
+    creator: namespaced({ namespaces: [] }) as StateCreator<any>,
+    options,
+    createMember: (id) => createNamespace(id, creator(id), options),
+  };
+}
+
+/**
+ * Creates a family of namespaces that share one definition. Each member is a namespace created on demand
+ * for its id, stored under `state[name][id]` (or as `name_id_key` when flattened).
+ * The family is added to a store like any other namespace.
+ */
+export const createNamespaceFamily = ((one?: any, two?: any, options?: any) => {
+  if (one && two) {
+    return getNamespaceFamily(one, two, options);
+  } else {
+    return (name: any, creator: any, options: any) =>
+      getNamespaceFamily(name, creator, options);
+  }
+}) as CreateNamespaceFamily;
+
+/**
+ * Returns an accessor for the members of each namespace family.
+ * @param store The store (or namespace hook) that holds the families
+ * @param families The families to get accessors for
+ */
+export function getNamespaceFamilyHooks<
+  S extends StoreApi<any> & { namespaces: any },
+  Families extends readonly NamespaceFamily<
+    any,
+    string,
+    any,
+    any,
+    any,
+    any,
+    any
+  >[],
+  CurrentNamespaces extends readonly Namespace<
+    any,
+    string,
+    any,
+    any,
+    any,
+    any
+  >[] = []
+>(
+  store: UseBoundStore<S> | UseBoundNamespace<S, CurrentNamespaces>,
+  ...families: Families
+) {
+  return families.reduce((acc, family) => {
+    return {
+      ...acc,
+      [family.name]: getOneNamespaceFamilyHook(store, family),
+    };
+  }, {} as NamespaceFamilyHooks<Families, CurrentNamespaces>);
+}
+
+function getOneNamespaceFamilyHook(
+  useStore:
+    | UseBoundStore<StoreApi<any>>
+    | UseBoundNamespace<StoreApi<any>, any>,
+  family: NamespaceFamily<any, string, string, any, any, boolean, string>
+) {
+  const useFamilyStore = getOneNamespaceHook(useStore, family as Namespace);
+  const familyApi: WithNames<StoreApi<any>> = (
+    useStore as unknown as WithNames<StoreApi<any>>
+  ).namespaces[family.name];
+  const hooks = new Map<string, UseBoundNamespace<any, any>>();
+
+  const getMemberHook = (id: string) => {
+    if (!familyApi.namespaces[id]) throw new Error(`Member ${id} not found`);
+    if (!hooks.has(id)) {
+      hooks.set(
+        id,
+        getOneNamespaceHook(
+          useFamilyStore,
+          getOwnNamespace(familyApi.namespaces[id])
+        )
+      );
+    }
+    return hooks.get(id)!;
+  };
+
+  // members are not created here, as adding one sets the store's state, which is not allowed while rendering
+  const useFamily = (id: string) => getMemberHook(id);
+
+  return Object.assign(useFamily, {
+    get: (id: string) => {
+      if (!familyApi.namespaces[id]) {
+        addNamespace(familyApi, family.createMember(id));
+      }
+      return getMemberHook(id);
+    },
+    ids: () => Object.keys(familyApi.namespaces),
+    dispose: (id: string) => {
+      hooks.delete(id);
+      removeNamespace(familyApi, id);
+    },
+  });
+}
+
+/**
+ * Gets the functions that select the state of each namespace from the state of the store.
+ */
+function getNamespaceSelectors(
+  api: WithNames<StoreApi<any>>,
+  namespaces: readonly Namespace<any, string, any, any, any, any>[]
+) {
+  return namespaces.map((namespace) => {
+    const namespaceApi: WithNames<StoreApi<any>> | undefined =
+      api.namespaces?.[namespace.name];
+    if (!namespaceApi) throw new Error('Namespace not found');
+    return namespaceApi._selectState!;
+  });
+}
+
+/**
+ * Derives a value from the state of several namespaces. The value is only recomputed when one of the
+ * namespace states changes.
+ * @param store The store (or namespace hook) that holds the namespaces
+ * @param namespaces The namespaces to derive the value from
+ * @param combiner Computes the value from the state of each namespace
+ * @param options.key If provided, the value is kept in the store's state under this key. The key can not be set directly.
+ * @returns A hook for the value, with `getState` and `subscribe` for use outside of React. With a key, it also has
+ * the store, typed with the key
+ */
+export function createDerived<
+  S extends StoreApi<any> & { namespaces: any },
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[],
+  U,
+  const K extends string = never
+>(
+  store: S,
+  namespaces: [...Namespaces],
+  combiner: (...states: DerivedStates<ExtractState<S>, Namespaces>) => U,
+  options?: { key?: K }
+): UseDerived<U, [K] extends [never] ? never : AddDerivedKey<S, K, U>> {
+  const api = store as unknown as WithNames<S>;
+  const selectors = getNamespaceSelectors(api, namespaces);
+  let states: unknown[] | undefined;
+  let value: U;
+
+  const compute = (state: ExtractState<S>) => {
+    const nextStates = selectors.map((selectState) => selectState(state));
+    if (
+      !states ||
+      nextStates.some((nextState, i) => !Object.is(nextState, states![i]))
+    ) {
+      states = nextStates;
+      value = combiner(...(nextStates as any));
+    }
+    return value;
+  };
+
+  const getState = () => compute(api.getState());
+
+  if (options?.key) {
+    if (!api._derived) throw new Error('Store is not namespaced');
+    api._derived[options.key] = compute;
+    api.setState({});
+  }
+
+  function useDerived(selector?: (value: U) => any) {
+    return useStore(api, (state: ExtractState<S>) =>
+      selector ? selector(compute(state)) : compute(state)
+    );
+  }
+
+  return Object.assign(useDerived, {
+    ...(options?.key && { store }),
+    getState,
+    subscribe: (listener: (value: U, previousValue: U) => void) => {
+      let previousValue = getState();
+      return api.subscribe((state) => {
+        const nextValue = compute(state);
+        if (Object.is(nextValue, previousValue)) return;
+        const lastValue = previousValue;
+        previousValue = nextValue;
+        listener(nextValue, lastValue);
+      });
+    },
+  }) as any;
+}
+
+/**
+ * A hook that selects a value from the state of several namespaces of a store at once.
+ * @param store The store (or namespace hook) that holds the namespaces
+ * @param namespaces The namespaces to select from
+ * @param selector Selects the value from the state of each namespace
+ * @param equalityFn If provided, the previous value is kept while it is equal to the selected value (e.g. `shallow`)
+ * @returns The selected value
+ */
+export function useNamespaces<
+  S extends StoreApi<any> & { namespaces: any },
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[],
+  U
+>(
+  store: S,
+  namespaces: [...Namespaces],
+  selector: (...states: DerivedStates<ExtractState<S>, Namespaces>) => U,
+  equalityFn?: (a: U, b: U) => boolean
+): U {
+  const api = store as unknown as WithNames<S>;
+  const selectors = getNamespaceSelectors(api, namespaces);
+  const previous = useRef<{ value: U }>();
+  return useStore(api, (state: ExtractState<S>) => {
+    const value = selector(
+      ...(selectors.map((selectState) => selectState(state)) as any)
+    );
+    if (
+      equalityFn &&
+      previous.current &&
+      equalityFn(previous.current.value, value)
+    ) {
+      return previous.current.value;
+    }
+    previous.current = { value };
+    return value;
+  });
+}
+
+/**
+ * Subscribes to a value selected from the state of several namespaces of a store. The listener is only called
+ * when the selected value changes.
+ * @param store The store (or namespace hook) that holds the namespaces
+ * @param namespaces The namespaces to select from
+ * @param selector Selects the value from the state of each namespace
+ * @param listener Called with the selected value and the previous selected value
+ * @param options.equalityFn Whether the selected value has changed. Defaults to `Object.is`.
+ * @param options.fireImmediately Whether to call the listener with the current selected value when subscribing
+ * @returns A function to unsubscribe
+ */
+export function subscribeNamespaces<
+  S extends StoreApi<any> & { namespaces: any },
+  Namespaces extends readonly Namespace<any, string, any, any, any, any>[],
+  U
+>(
+  store: S,
+  namespaces: [...Namespaces],
+  selector: (...states: DerivedStates<ExtractState<S>, Namespaces>) => U,
+  listener: (value: U, previousValue: U) => void,
+  options?: SelectorSubscribeOptions<U>
+): () => void {
+  const api = store as unknown as WithNames<S>;
+  const selectors = getNamespaceSelectors(api, namespaces);
+  const equalityFn = options?.equalityFn ?? Object.is;
+  let states = selectors.map((selectState) => selectState(api.getState()));
+  let previousValue = selector(...(states as any));
+  if (options?.fireImmediately) listener(previousValue, previousValue);
+  return api.subscribe((state) => {
+    const nextStates = selectors.map((selectState) => selectState(state));
+    // the value is only selected again when one of the namespace states changes
+    if (nextStates.every((nextState, i) => Object.is(nextState, states[i])))
+      return;
+    states = nextStates;
+    const nextValue = selector(...(nextStates as any));
+    if (equalityFn(previousValue, nextValue)) return;
+    const lastValue = previousValue;
+    previousValue = nextValue;
+    listener(nextValue, lastValue);
+  });
+}
+
+/**
+ * A root middleware that persists every namespace with a `persist` option. Each namespace is stored under its own
+ * key with its own storage and version, and is only written when its state changes. The store gets a
+ * `persistNamespaces` api to track the hydration of the whole namespace tree.
+ * @param initializer The namespaced state creator
+ * @param options The name to prefix storage keys with, and the default storage
+ */
+export const persistNamespaces = ((
+  initializer: StateCreator<any>,
+  options: PersistNamespacesOptions = {}
+) => {
+  return (
+    set: StoreApi<any>['setState'],
+    get: StoreApi<any>['getState'],
+    api: StoreApi<any>
+  ) => {
+    const rootApi = api as WithNames<StoreApi<any>>;
+    const defaultStorage =
+      options.storage ?? createJSONStorage(() => localStorage);
+    const persistedStates = new Map<WithNames<StoreApi<any>>, unknown>();
+    const finishHydrationListeners = new Set<() => void>();
+    let hasHydrated = false;
+    // the number of hydrations in progress, as rehydrate can be called while the store is hydrating
+    let hydrations = 0;
+
+    const getPersistedNamespaces = () => {
+      return getNamespaceTree(rootApi).flatMap((namespaceApi) => {
+        const persistOptions: NamespacePersistOptions<any> | undefined =
+          getOwnNamespace(namespaceApi).options?.persist;
+        if (!persistOptions) return [];
+        const name = persistOptions.name ?? getPathName(namespaceApi);
+        return [
+          {
+            api: namespaceApi,
+            options: persistOptions,
+            name: options.name ? `${options.name}/${name}` : name,
+            storage: persistOptions.storage ?? defaultStorage,
+          },
+        ];
+      });
+    };
+
+    const persistNamespace = (
+      namespace: ReturnType<typeof getPersistedNamespaces>[number]
+    ) => {
+      const state = getPublicState(namespace.api);
+      // parent updates can recreate a namespace's slice with the same values, so compare shallowly
+      if (isShallowEqual(persistedStates.get(namespace.api), state)) return;
+      persistedStates.set(namespace.api, state);
+      namespace.storage?.setItem(namespace.name, {
+        state,
+        version: namespace.options.version ?? 0,
+      });
+    };
+
+    const finishHydration = (
+      namespaces: ReturnType<typeof getPersistedNamespaces>,
+      migratedNamespaces: Set<(typeof namespaces)[number]>
+    ) => {
+      for (const namespace of namespaces) {
+        if (migratedNamespaces.has(namespace)) {
+          persistNamespace(namespace);
+        } else {
+          persistedStates.set(namespace.api, getPublicState(namespace.api));
+        }
+      }
+      hasHydrated = true;
+      finishHydrationListeners.forEach((listener) => listener());
+    };
+
+    const rehydrate = () => {
+      hasHydrated = false;
+      hydrations++;
+      const namespaces = getPersistedNamespaces();
+      const migratedNamespaces = new Set<(typeof namespaces)[number]>();
+
+      // parents are hydrated before their children. Storage and migrations are only waited for when they return a
+      // promise, so that synchronous storage is loaded as soon as the store is created.
+      const hydrateNamespaces = (index: number): void | Promise<void> => {
+        const namespace = namespaces[index];
+        if (!namespace) return;
+        const hydrateNamespace = (state: unknown) => {
+          allowNamespaceWrites(() => namespace.api.setState(state));
+          return hydrateNamespaces(index + 1);
+        };
+        return whenResolved(
+          namespace.storage?.getItem(namespace.name),
+          (storedValue) => {
+            if (!storedValue) return hydrateNamespaces(index + 1);
+
+            const version = namespace.options.version ?? 0;
+            const storedVersion = storedValue.version ?? 0;
+            if (storedVersion === version)
+              return hydrateNamespace(storedValue.state);
+            if (!namespace.options.migrate) {
+              options.onError?.(
+                new Error(
+                  `State loaded from storage for ${namespace.name} couldn't be migrated since no migrate function was provided`
+                )
+              );
+              return hydrateNamespaces(index + 1);
+            }
+            migratedNamespaces.add(namespace);
+            return whenResolved(
+              namespace.options.migrate(storedValue.state, storedVersion),
+              hydrateNamespace
+            );
+          }
+        );
+      };
+
+      let hydration: void | Promise<void>;
+      try {
+        hydration = hydrateNamespaces(0);
+      } catch (error) {
+        hydrations--;
+        return Promise.reject(error);
+      }
+      if (!(hydration instanceof Promise)) {
+        hydrations--;
+        finishHydration(namespaces, migratedNamespaces);
+        return Promise.resolve();
+      }
+      return hydration.then(
+        () => {
+          hydrations--;
+          finishHydration(namespaces, migratedNamespaces);
+        },
+        (error) => {
+          hydrations--;
+          throw error;
+        }
+      );
+    };
+
+    Object.assign(api, {
+      persistNamespaces: {
+        rehydrate,
+        hasHydrated: () => hasHydrated,
+        onFinishHydration: (listener: () => void) => {
+          finishHydrationListeners.add(listener);
+          return () => {
+            finishHydrationListeners.delete(listener);
+          };
+        },
+        clearStorage: () => {
+          getPersistedNamespaces().forEach((namespace) => {
+            namespace.storage?.removeItem(namespace.name);
+          });
+        },
+      },
+    });
+
+    const initialState = initializer(set, get, api);
+    api.getInitialState = () => initialState;
+    // namespaces are hydrated through the store, so its state is set before the store has been created
+    set(initialState, true);
+
+    api.subscribe(() => {
+      if (hydrations) return;
+      getPersistedNamespaces().forEach(persistNamespace);
+    });
+
+    void rehydrate();
+    return get();
+  };
+}) as PersistNamespaces;
+
+/**
+ * Calls `fn` with a value, or with the value of a promise once it resolves.
+ */
+function whenResolved<T>(
+  value: T | Promise<T>,
+  fn: (value: T) => void | Promise<void>
+): void | Promise<void> {
+  return value instanceof Promise ? value.then(fn) : fn(value);
+}
+
+/**
+ * Throws if a namespace, or one of its nested namespaces, is flattened into symbol keys (e.g. with
+ * `symbolKeyCodec`), which JSON leaves out of a snapshot.
+ * @param namespaceApi The namespaced api
+ */
+function assertSerializable(namespaceApi: WithNames<StoreApi<any>>) {
+  for (const current of [namespaceApi, ...getNamespaceTree(namespaceApi)]) {
+    const namespace = getOwnNamespace(current);
+    const keys = Reflect.ownKeys(
+      getParentState(getPublicState(current), namespace)
+    );
+    if (keys.some((key) => typeof key === 'symbol'))
+      throw new Error(
+        `Namespace ${getPathName(current)} cannot be dehydrated, as its keys are symbols`
+      );
+  }
+}
+
+/**
+ * Creates a snapshot of the state of a store's namespaces, e.g. to send the state that was rendered on the
+ * server to the client. Actions are left out, and the snapshot is escaped so that it can be inlined in a
+ * `<script>` tag. Throws for namespaces that are flattened into symbol keys, as they can not be serialized.
+ * @param store The namespaced store (or namespace hook) to create the snapshot of
+ * @param options The namespaces to include in the snapshot
+ * @returns The snapshot as a JSON string
+ */
+export function dehydrate<S extends StoreApi<any> & { namespaces: any }>(
+  store: S,
+  options: DehydrateOptions<S> = {}
+): string {
+  const api = store as unknown as WithNames<StoreApi<any>>;
+  const names = options.include
+    ? options.include.map((namespace) => namespace.name)
+    : Object.keys(api.namespaces ?? {});
+
+  const snapshot = names.reduce((acc, name) => {
+    const namespaceApi: WithNames<StoreApi<any>> | undefined =
+      api.namespaces?.[name];
+    if (!namespaceApi) throw new Error('Namespace not found');
+    assertSerializable(namespaceApi);
+    return {
+      ...acc,
+      ...getParentState(
+        getPublicState(namespaceApi),
+        getOwnNamespace(namespaceApi)
+      ),
+    };
+  }, {});
+
+  // characters that could end the script tag (or the script itself) are escaped
+  return JSON.stringify(snapshot).replace(
+    /[<>&\u2028\u2029]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+}
+
+/**
+ * Applies the state of each namespace in a snapshot through its namespaced api, children first. Actions in
+ * the store are kept, even if the snapshot has a value for them.
+ */
+function hydrateNamespaces(api: WithNames<StoreApi<any>>, state: any) {
+  for (const namespaceApi of Object.values<WithNames<StoreApi<any>>>(
+    api.namespaces ?? {}
+  )) {
+    const namespaceState = getNamespaceState(
+      state,
+      getOwnNamespace(namespaceApi)
+    );
+    if (Reflect.ownKeys(namespaceState).length === 0) continue;
+
+    hydrateNamespaces(namespaceApi, namespaceState);
+
+    // the keys of nested namespaces have already been applied
+    const ownState = getOwnState(namespaceApi, namespaceState);
+
+    const currentState = namespaceApi.getState();
+    for (const key in ownState) {
+      if (
+        typeof ownState[key] === 'function' ||
+        typeof currentState[key] === 'function'
+      ) {
+        delete ownState[key];
+      }
+    }
+    if (Reflect.ownKeys(ownState).length > 0) namespaceApi.setState(ownState);
+  }
+}
+
+/**
+ * Applies a snapshot created by `dehydrate` to a store, in a single update. Each namespace's state is applied
+ * through its namespaced api, and actions are kept.
+ * @param store The namespaced store (or namespace hook) to apply the snapshot to
+ * @param snapshot The snapshot, as a JSON string or as the parsed object
+ */
+export function hydrate(store: StoreApi<any>, snapshot: string | object) {
+  const api = store as WithNames<StoreApi<any>>;
+  const state = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot;
+
+  batch(store, () => hydrateNamespaces(api, state));
+}
+
+/**
+ * The keys of a namespaced api that are not added by middleware.
+ */
+const namespacedApiKeys = new Set([
+  'getInitialState',
+  'getState',
+  'setState',
+  'subscribe',
+  'reset',
+  'namespaces',
+  'namespacePath',
+]);
+
+function describeNamespace(
+  namespaceApi: WithNames<StoreApi<any>>
+): NamespaceDescription {
+  const namespace = getOwnNamespace(namespaceApi);
+  const keyCodec = toKeyCodec(getKeySeparator(namespace));
+  return {
+    name: namespace.name,
+    path: namespaceApi.namespacePath!.map(({ name }) => name),
+    flatten: !!namespace.options?.flatten,
+    separator: (keyCodec as SeparatorKeyCodec).separator,
+    keyCodec: keyCodec.id,
+    keys: Object.keys(getOwnState(namespaceApi, namespaceApi.getState())),
+    // internal keys start with an underscore
+    mutators: Object.keys(namespaceApi).filter(
+      (key) => !namespacedApiKeys.has(key) && !key.startsWith('_')
+    ),
+    namespaces: describeNamespaces(namespaceApi),
+  };
+}
+
+/**
+ * Describes the namespaces of a store as a tree: how they are nested, whether they are flattened, which
+ * state keys they own and which middleware apis were added to them. The description is built from the
+ * live store, so it includes namespaces that were added after the store was created.
+ * @param store The namespaced store (or namespace hook) to describe
+ * @returns The descriptions of the store's namespaces, keyed by name
+ */
+export function describeNamespaces<S extends StoreApi<any>>(
+  store: S
+): NamespaceDescriptions<S> {
+  const api = store as unknown as WithNames<StoreApi<any>>;
+  return Object.entries<WithNames<StoreApi<any>>>(api.namespaces ?? {}).reduce(
+    (acc, [name, namespaceApi]) => ({
+      ...acc,
+      [name]: describeNamespace(namespaceApi),
+    }),
+    {} as NamespaceDescriptions<S>
+  );
+}
@@ -0,0 +1,44 @@
+import { create } from 'zustand';
+import { createNamespace, namespaced } from '../src/utils';
+
+/**
+ * A store with a nested namespace (namespaceA), a namespace flattened into it (subNamespace) and a namespace
+ * flattened into the root (namespaceB), for specs that work across every kind of namespace.
+ */
+export const subNamespace = createNamespace(
+  'subNamespace',
+  () => ({
+    dataInSubNamespace: 'data',
+  }),
+  { flatten: true }
+);
+
+export const namespaceA = createNamespace(
+  'namespaceA',
+  namespaced(
+    (state) => () => ({
+      dataInNamespaceA: 'data',
+      ...state,
+    }),
+    { namespaces: [subNamespace] }
+  )
+);
+
+export const namespaceB = createNamespace(
+  'namespaceB',
+  () => ({
+    dataInNamespaceB: 'data',
+  }),
+  { flatten: true }
+);
+
+export const createStore = () =>
+  create(
+    namespaced(
+      (state) => () => ({
+        mainData: 'data',
+        ...state,
+      }),
+      { namespaces: [namespaceA, namespaceB] }
+    )
+  );
@@ -0,0 +1,120 @@
+import { expectType } from 'ts-expect';
+import { describe, expect, test, vi } from 'vitest';
+import { create, createStore } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import {
+  adoptStore,
+  getNamespaceHooks,
+  namespaced,
+  resetNamespaces,
+} from '../src/utils';
+
+type Legacy = {
+  count: number;
+  increment: () => void;
+};
+
+const createLegacyStore = () =>
+  createStore<Legacy>()((set) => ({
+    count: 0,
+    increment: () => set((state) => ({ count: state.count + 1 })),
+  }));
+
+describe('Adopting stores', () => {
+  test('should mount the state of the store as a namespace', () => {
+    const legacyStore = createLegacyStore();
+    const legacyNamespace = adoptStore('legacy', legacyStore);
+
+    const useStore = create(
+      namespaced(
+        (state) => () => ({
+          mainData: 'data',
+          ...state,
+        }),
+        { namespaces: [legacyNamespace] }
+      )
+    );
+
+    expect(useStore.getState().legacy.count).toBe(0);
+    expectType<number>(useStore.getState().legacy.count);
+    expectType<() => void>(useStore.getState().legacy.increment);
+  });
+
+  test('should sync updates from the store into the root', () => {
+    const legacyStore = createLegacyStore();
+    const useStore = create(
+      namespaced({ namespaces: [adoptStore('legacy', legacyStore)] })
+    );
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    legacyStore.getState().increment();
+    useStore.getState().legacy.increment();
+
+    expect(useStore.getState().legacy.count).toBe(2);
+    expect(legacyStore.getState().count).toBe(2);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  test('should sync updates from the root into the store', () => {
+    const legacyStore = createLegacyStore();
+    const legacyNamespace = adoptStore('legacy', legacyStore);
+    const useStore = create(namespaced({ namespaces: [legacyNamespace] }));
+    const { legacy: useLegacy } = getNamespaceHooks(useStore, legacyNamespace);
+    const listener = vi.fn();
+    legacyStore.subscribe(listener);
+
+    useLegacy.setState({ count: 5 });
+    expect(legacyStore.getState().count).toBe(5);
+
+    useStore.setState({ legacy: { ...useStore.getState().legacy, count: 6 } });
+    expect(legacyStore.getState().count).toBe(6);
+
+    resetNamespaces(useStore);
+    expect(legacyStore.getState().count).toBe(0);
+    expect(typeof legacyStore.getState().increment).toBe('function');
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  test('should sync flattened namespaces', () => {
+    const legacyStore = createLegacyStore();
+    const useStore = create(
+      namespaced({
+        namespaces: [adoptStore('legacy', legacyStore, { flatten: true })],
+      })
+    );
+
+    legacyStore.getState().increment();
+    expect(useStore.getState().legacy_count).toBe(1);
+
+    useStore.setState({ legacy_count: 3 });
+    expect(legacyStore.getState().count).toBe(3);
+  });
+
+  test('should keep the middleware of the store working', () => {
+    const storage = new Map<string, string>();
+    const legacyStore = createStore<Legacy>()(
+      persist(
+        (set) => ({
+          count: 0,
+          increment: () => set((state) => ({ count: state.count + 1 })),
+        }),
+        {
+          name: 'legacy',
+          storage: createJSONStorage(() => ({
+            getItem: (key) => storage.get(key) ?? null,
+            setItem: (key, value) => void storage.set(key, value),
+            removeItem: (key) => void storage.delete(key),
+          })),
+        }
+      )
+    );
+    const legacyNamespace = adoptStore('legacy', legacyStore);
+    const useStore = create(namespaced({ namespaces: [legacyNamespace] }));
+
+    useStore.namespaces.legacy.setState({ count: 4 });
+
+    expect(JSON.parse(storage.get('legacy')!).state).toEqual({ count: 4 });
+    expect(legacyStore.persist.hasHydrated()).toBe(true);
+  });
+});
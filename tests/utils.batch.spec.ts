@@ -0,0 +1,136 @@
+import { describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import {
+  batch,
+  createNamespace,
+  getNamespaceHooks,
+  namespaced,
+  symbolKeyCodec,
+} from '../src/utils';
+import { createStore, namespaceA, namespaceB, subNamespace } from './fixtures';
+
+describe('Batching updates', () => {
+  const createHooks = () => {
+    const useStore = createStore();
+    const { namespaceA: useNamespaceA, namespaceB: useNamespaceB } =
+      getNamespaceHooks(useStore, namespaceA, namespaceB);
+    const { subNamespace: useSubNamespace } = getNamespaceHooks(
+      useNamespaceA,
+      subNamespace
+    );
+    return { useStore, useNamespaceA, useNamespaceB, useSubNamespace };
+  };
+
+  test('should apply updates to several namespaces in one update', () => {
+    const { useStore, useNamespaceA, useNamespaceB, useSubNamespace } =
+      createHooks();
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    batch(useStore, () => {
+      useNamespaceA.setState({ dataInNamespaceA: 'updated' });
+      useNamespaceB.setState({ dataInNamespaceB: 'updated' });
+      useSubNamespace.setState({ dataInSubNamespace: 'updated' });
+      useStore.setState({ mainData: 'updated' });
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(useStore.getState()).toEqual({
+      mainData: 'updated',
+      namespaceA: {
+        dataInNamespaceA: 'updated',
+        subNamespace_dataInSubNamespace: 'updated',
+      },
+      namespaceB_dataInNamespaceB: 'updated',
+    });
+  });
+
+  test('should read the updates made so far inside a batch', () => {
+    const { useStore, useNamespaceA } = createHooks();
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    batch(useStore, () => {
+      useNamespaceA.setState((state) => ({
+        dataInNamespaceA: `${state.dataInNamespaceA}!`,
+      }));
+      useNamespaceA.setState((state) => ({
+        dataInNamespaceA: `${state.dataInNamespaceA}!`,
+      }));
+      expect(useNamespaceA.getState().dataInNamespaceA).toBe('data!!');
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(useNamespaceA.getState().dataInNamespaceA).toBe('data!!');
+  });
+
+  test('should flatten nested batches into the outer batch', () => {
+    const { useStore, useNamespaceA, useNamespaceB, useSubNamespace } =
+      createHooks();
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    const result = batch(useStore, () => {
+      useNamespaceB.setState({ dataInNamespaceB: 'updated' });
+      batch(useNamespaceA, () => {
+        useNamespaceA.setState({ dataInNamespaceA: 'updated' });
+        useSubNamespace.setState({ dataInSubNamespace: 'updated' });
+      });
+      return 'result';
+    });
+
+    expect(result).toBe('result');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(useNamespaceA.getState().dataInNamespaceA).toBe('updated');
+    expect(useSubNamespace.getState().dataInSubNamespace).toBe('updated');
+    expect(useNamespaceB.getState().dataInNamespaceB).toBe('updated');
+  });
+
+  test('should discard the updates of a batch that throws', () => {
+    const { useStore, useNamespaceA } = createHooks();
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    expect(() =>
+      batch(useStore, () => {
+        useNamespaceA.setState({ dataInNamespaceA: 'updated' });
+        throw new Error('failed');
+      })
+    ).toThrow('failed');
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(useNamespaceA.getState().dataInNamespaceA).toBe('data');
+
+    useNamespaceA.setState({ dataInNamespaceA: 'updated' });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not notify when nothing was updated', () => {
+    const { useStore } = createHooks();
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    batch(useStore, () => {});
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should apply batched writes to symbol keyed namespaces', () => {
+    const symbolNamespace = createNamespace(
+      'symbolNamespace',
+      () => ({
+        count: 1,
+      }),
+      { flatten: true, keyCodec: symbolKeyCodec }
+    );
+    const useStore = create(namespaced({ namespaces: [symbolNamespace] }));
+
+    batch(useStore, () =>
+      useStore.namespaces.symbolNamespace.setState({ count: 7 })
+    );
+
+    expect(useStore.namespaces.symbolNamespace.getState()).toEqual({
+      count: 7,
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { expectType } from 'ts-expect';
+import { describe, expect, test } from 'vitest';
+import { create } from 'zustand';
+import { ExtractNamespaces, NamespaceCollisionError } from '../src/types';
+import { addNamespace, createNamespace, namespaced } from '../src/utils';
+
+describe('Namespace collisions', () => {
+  const namespaceA = createNamespace('namespaceA', () => ({
+    dataInNamespaceA: 'data',
+  }));
+
+  const otherNamespaceA = createNamespace('namespaceA', () => ({
+    otherDataInNamespaceA: 'data',
+  }));
+
+  const flatNamespace = createNamespace(
+    'flat',
+    () => ({
+      b_c: 'data',
+    }),
+    { flatten: true }
+  );
+
+  const flatSubNamespace = createNamespace(
+    'flat_b',
+    () => ({
+      c: 'data',
+    }),
+    { flatten: true }
+  );
+
+  const nestedNamespace = createNamespace('flat_d', () => ({
+    data: 'data',
+  }));
+
+  test('should throw when two namespaces share a name', () => {
+    expect(() =>
+      create(
+        // @ts-expect-error - namespaceA is defined more than once
+        namespaced({ namespaces: [namespaceA, otherNamespaceA] })
+      )
+    ).toThrow('Namespace namespaceA is defined more than once');
+  });
+
+  test('should throw when the keys of flattened namespaces collide', () => {
+    expect(() =>
+      create(
+        // @ts-expect-error - flat_b_c is a key of both namespaces
+        namespaced({ namespaces: [flatNamespace, flatSubNamespace] })
+      )
+    ).toThrow('Key flat_b_c of namespace flat collides with namespace flat_b');
+  });
+
+  test('should throw when a namespace overlaps the prefix of a flattened namespace', () => {
+    expect(() =>
+      create(
+        // @ts-expect-error - flat_d starts with the prefix of flat
+        namespaced({ namespaces: [flatNamespace, nestedNamespace] })
+      )
+    ).toThrow('Key flat_d of namespace flat_d collides with namespace flat');
+  });
+
+  test('should throw when a root key overwrites a namespace', () => {
+    expect(() =>
+      create(
+        namespaced(
+          (state) => () => ({
+            ...state,
+            namespaceA: 'data',
+          }),
+          { namespaces: [namespaceA] }
+        )
+      )
+    ).toThrow('Key namespaceA collides with namespace namespaceA');
+  });
+
+  test('should throw when a root key starts with the prefix of a flattened namespace', () => {
+    expect(() =>
+      create(
+        namespaced(
+          (state) => () => ({
+            flat_data: 'data',
+            ...state,
+          }),
+          { namespaces: [flatNamespace] }
+        )
+      )
+    ).toThrow('Key flat_data collides with namespace flat');
+  });
+
+  test('should throw when an added namespace collides', () => {
+    const useStore = create(
+      namespaced({ namespaces: [namespaceA, flatNamespace] })
+    );
+
+    expect(() => addNamespace(useStore, flatSubNamespace)).toThrow(
+      'Key flat_b_c of namespace flat collides with namespace flat_b'
+    );
+    expect(Object.keys(useStore.namespaces)).toEqual(['namespaceA', 'flat']);
+  });
+
+  test('should not throw for namespaces that do not collide', () => {
+    const useStore = create(
+      namespaced(
+        (state) => () => ({
+          mainData: 'data',
+          ...state,
+        }),
+        { namespaces: [namespaceA, flatNamespace] }
+      )
+    );
+
+    expect(useStore.getState()).toEqual({
+      mainData: 'data',
+      namespaceA: { dataInNamespaceA: 'data' },
+      flat_b_c: 'data',
+    });
+  });
+
+  test('should report collisions in the extracted namespace types', () => {
+    type Namespaces = ExtractNamespaces<[typeof namespaceA, typeof namespaceA]>;
+    type OverlappingNamespaces = ExtractNamespaces<
+      [typeof flatNamespace, typeof nestedNamespace]
+    >;
+
+    expectType<
+      NamespaceCollisionError<'Namespace "namespaceA" is defined more than once'>
+    >({} as Namespaces);
+    expectType<
+      NamespaceCollisionError<'Key "flat_d" of namespace "flat_d" overlaps the prefix of flattened namespace "flat"'>
+    >({} as OverlappingNamespaces);
+  });
+});
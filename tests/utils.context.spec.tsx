@@ -0,0 +1,181 @@
+import '@testing-library/jest-dom';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import React from 'react';
+import { expectType } from 'ts-expect';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { createStore } from 'zustand';
+import {
+  createNamespace,
+  createNamespaceContext,
+  namespaced,
+} from '../src/utils';
+
+type NamespaceA = {
+  dataInNamespaceA: string;
+  updateNamespaceAData: (data: string) => void;
+};
+
+const namespaceA = createNamespace<NamespaceA>()('namespaceA', (set) => ({
+  dataInNamespaceA: 'Initial Data',
+  updateNamespaceAData: (data) => set({ dataInNamespaceA: data }),
+}));
+
+const namespaceB = createNamespace(
+  'namespaceB',
+  () => ({
+    dataInNamespaceB: 'Initial Data',
+  }),
+  { flatten: true }
+);
+
+const {
+  Provider,
+  useStore,
+  useStoreApi,
+  hooks: { namespaceA: useNamespaceA, namespaceB: useNamespaceB },
+} = createNamespaceContext(
+  () =>
+    createStore(
+      namespaced(
+        (state) => () => ({
+          mainData: 'Initial Data',
+          ...state,
+        }),
+        { namespaces: [namespaceA, namespaceB] }
+      )
+    ),
+  namespaceA,
+  namespaceB
+);
+
+const Editor = ({ id }: { id: string }) => {
+  const data = useNamespaceA((state) => state.dataInNamespaceA);
+  const update = useNamespaceA((state) => state.updateNamespaceAData);
+  const dataInNamespaceB = useNamespaceB((state) => state.dataInNamespaceB);
+  const mainData = useStore((state) => state.mainData);
+  return (
+    <div>
+      <p data-testid={`${id}-namespaceA-data`}>{data}</p>
+      <p data-testid={`${id}-namespaceB-data`}>{dataInNamespaceB}</p>
+      <p data-testid={`${id}-main-data`}>{mainData}</p>
+      <button data-testid={`${id}-update`} onClick={() => update(id)} />
+    </div>
+  );
+};
+
+afterEach(cleanup);
+
+describe('Namespace context', () => {
+  test('should give each provider its own store', () => {
+    render(
+      <>
+        <Provider>
+          <Editor id="first" />
+        </Provider>
+        <Provider>
+          <Editor id="second" />
+        </Provider>
+      </>
+    );
+
+    act(() => {
+      screen.getByTestId('first-update').click();
+    });
+
+    expect(screen.getByTestId('first-namespaceA-data')).toHaveTextContent(
+      'first'
+    );
+    expect(screen.getByTestId('second-namespaceA-data')).toHaveTextContent(
+      'Initial Data'
+    );
+    expect(screen.getByTestId('second-namespaceB-data')).toHaveTextContent(
+      'Initial Data'
+    );
+    expect(screen.getByTestId('second-main-data')).toHaveTextContent(
+      'Initial Data'
+    );
+  });
+
+  test('should resolve the namespaced api of the nearest provider', () => {
+    let api: ReturnType<typeof useNamespaceB.useApi> | undefined;
+    let store: ReturnType<typeof useStoreApi> | undefined;
+    const Inspector = () => {
+      api = useNamespaceB.useApi();
+      store = useStoreApi();
+      return null;
+    };
+
+    render(
+      <Provider>
+        <Inspector />
+        <Editor id="only" />
+      </Provider>
+    );
+
+    expect(useNamespaceB.namespacePath).toEqual([namespaceB]);
+    expect(api!.namespacePath).toEqual([namespaceB]);
+
+    act(() => {
+      api!.setState({ dataInNamespaceB: 'Updated Data' });
+    });
+
+    expect(screen.getByTestId('only-namespaceB-data')).toHaveTextContent(
+      'Updated Data'
+    );
+    expect(api!.getRawState()).toEqual({
+      namespaceB_dataInNamespaceB: 'Updated Data',
+    });
+    expect(useNamespaceB.getRawState(store!)).toEqual({
+      namespaceB_dataInNamespaceB: 'Updated Data',
+    });
+    expectType<string>(
+      useNamespaceB.getRawState(store!).namespaceB_dataInNamespaceB
+    );
+    expect(useNamespaceA.getRawState(store!)).toEqual({
+      namespaceA: {
+        dataInNamespaceA: 'Initial Data',
+        updateNamespaceAData: expect.any(Function),
+      },
+    });
+    expect(store!.namespaces.namespaceB.getState()).toEqual({
+      dataInNamespaceB: 'Updated Data',
+    });
+  });
+
+  test('should throw when used outside of a provider', () => {
+    const consoleError = console.error;
+    console.error = () => {};
+    expect(() => render(<Editor id="none" />)).toThrow(
+      'Namespace provider not found'
+    );
+    console.error = consoleError;
+  });
+
+  test('should destroy the namespaces of a provider when it unmounts', async () => {
+    const onDestroy = vi.fn();
+    const namespace = createNamespace(
+      'namespace',
+      () => ({
+        data: 'data',
+      }),
+      { onDestroy }
+    );
+    const { Provider } = createNamespaceContext(
+      () => createStore(namespaced({ namespaces: [namespace] })),
+      namespace
+    );
+
+    const { unmount } = render(
+      <React.StrictMode>
+        <Provider />
+      </React.StrictMode>
+    );
+    await Promise.resolve();
+    // strict mode remounting the provider keeps its store
+    expect(onDestroy).not.toHaveBeenCalled();
+
+    unmount();
+    await Promise.resolve();
+    expect(onDestroy).toHaveBeenCalledTimes(1);
+  });
+});
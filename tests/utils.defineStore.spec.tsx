@@ -0,0 +1,106 @@
+import '@testing-library/jest-dom';
+import { cleanup, render, screen } from '@testing-library/react';
+import React from 'react';
+import { expectType } from 'ts-expect';
+import { afterEach, describe, expect, test } from 'vitest';
+import {
+  createNamespace,
+  createNamespaceContext,
+  defineNamespacedStore,
+} from '../src/utils';
+
+afterEach(cleanup);
+
+describe('Defining namespaced stores', () => {
+  type NamespaceA = {
+    dataInNamespaceA: string;
+    updateNamespaceAData: (data: string) => void;
+  };
+
+  const namespaceA = createNamespace<NamespaceA>()('namespaceA', (set) => ({
+    dataInNamespaceA: 'data',
+    updateNamespaceAData: (data) => set({ dataInNamespaceA: data }),
+  }));
+
+  const namespaceB = createNamespace(
+    'namespaceB',
+    () => ({
+      dataInNamespaceB: 'data',
+    }),
+    { flatten: true }
+  );
+
+  const createStore = defineNamespacedStore({
+    namespaces: [namespaceA, namespaceB],
+    root: (state) => () => ({
+      mainData: 'data',
+      ...state,
+    }),
+  });
+
+  test('should create a fresh store each time', () => {
+    const useStoreA = createStore();
+    const useStoreB = createStore();
+
+    useStoreA.namespaces.namespaceA.setState({ dataInNamespaceA: 'updated' });
+
+    expect(useStoreA.getState().namespaceA.dataInNamespaceA).toBe('updated');
+    expect(useStoreB.getState().namespaceA.dataInNamespaceA).toBe('data');
+    expect(useStoreA.namespaces).not.toBe(useStoreB.namespaces);
+    expect(useStoreB.getState().mainData).toBe('data');
+
+    expectType<string>(useStoreA.getState().mainData);
+    expectType<string>(useStoreA.getState().namespaceB_dataInNamespaceB);
+  });
+
+  test('should bind the namespace hooks to a store', () => {
+    const useStoreA = createStore();
+    const useStoreB = createStore();
+    const { namespaceA: useNamespaceA, namespaceB: useNamespaceB } =
+      createStore.getNamespaceHooks(useStoreA);
+
+    useNamespaceA.getState().updateNamespaceAData('updated');
+    useNamespaceB.setState({ dataInNamespaceB: 'updated' });
+
+    expect(useStoreA.getState().namespaceA.dataInNamespaceA).toBe('updated');
+    expect(useStoreA.getState().namespaceB_dataInNamespaceB).toBe('updated');
+    expect(useStoreB.getState().namespaceA.dataInNamespaceA).toBe('data');
+
+    expectType<string>(useNamespaceA.getState().dataInNamespaceA);
+    expectType<string>(useNamespaceB.getState().dataInNamespaceB);
+  });
+
+  test('should default the root state to the namespaces', () => {
+    const createNamespacesStore = defineNamespacedStore({
+      namespaces: [namespaceA, namespaceB],
+    });
+
+    const useStore = createNamespacesStore();
+
+    expect(useStore.getState()).toEqual({
+      namespaceA: expect.objectContaining({ dataInNamespaceA: 'data' }),
+      namespaceB_dataInNamespaceB: 'data',
+    });
+    expect(createNamespacesStore.namespaces).toEqual([namespaceA, namespaceB]);
+  });
+
+  test('should create a store for each provider', () => {
+    const { Provider, hooks } = createNamespaceContext(
+      createStore,
+      ...createStore.namespaces
+    );
+
+    const Component = () => {
+      const data = hooks.namespaceA((state) => state.dataInNamespaceA);
+      return <p data-testid="data">{data}</p>;
+    };
+
+    render(
+      <Provider>
+        <Component />
+      </Provider>
+    );
+
+    expect(screen.getByTestId('data')).toHaveTextContent('data');
+  });
+});
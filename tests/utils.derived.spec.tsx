@@ -0,0 +1,179 @@
+import '@testing-library/jest-dom';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import React from 'react';
+import { expectType } from 'ts-expect';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import { createDerived, createNamespace, namespaced } from '../src/utils';
+
+type Cart = {
+  items: { price: number }[];
+};
+
+type Discount = {
+  percentage: number;
+};
+
+const cart = createNamespace<Cart>()('cart', () => ({
+  items: [{ price: 10 }, { price: 20 }],
+}));
+
+const discount = createNamespace<Discount>()(
+  'discount',
+  () => ({
+    percentage: 50,
+  }),
+  { flatten: true }
+);
+
+const createStore = () =>
+  create(
+    namespaced(
+      (state) => () => ({
+        mainData: 'data',
+        ...state,
+      }),
+      { namespaces: [cart, discount] }
+    )
+  );
+
+afterEach(cleanup);
+
+describe('Derived state', () => {
+  test('should derive a value from several namespaces', () => {
+    const useStore = createStore();
+    const useTotal = createDerived(
+      useStore,
+      [cart, discount],
+      (cartState, discountState) => {
+        expectType<Cart>(cartState);
+        expectType<Discount>(discountState);
+        return (
+          cartState.items.reduce((sum, item) => sum + item.price, 0) *
+          (1 - discountState.percentage / 100)
+        );
+      }
+    );
+
+    expect(useTotal.getState()).toBe(15);
+
+    useStore.namespaces.cart.setState({
+      items: [{ price: 10 }, { price: 30 }],
+    });
+    expect(useTotal.getState()).toBe(20);
+
+    useStore.namespaces.discount.setState({ percentage: 0 });
+    expect(useTotal.getState()).toBe(40);
+  });
+
+  test('should only recompute when a namespace state changes', () => {
+    const useStore = createStore();
+    const combiner = vi.fn((cartState: Cart) => cartState.items.length);
+    const useCount = createDerived(useStore, [cart], combiner);
+
+    useCount.getState();
+    useStore.setState({ mainData: 'updated' });
+    useCount.getState();
+    expect(combiner).toHaveBeenCalledTimes(1);
+
+    useStore.namespaces.cart.setState({ items: [] });
+    expect(useCount.getState()).toBe(0);
+    expect(combiner).toHaveBeenCalledTimes(2);
+  });
+
+  test('should only notify subscribers when the value changes', () => {
+    const useStore = createStore();
+    const useCount = createDerived(
+      useStore,
+      [cart],
+      (cartState) => cartState.items.length
+    );
+    const listener = vi.fn();
+    useCount.subscribe(listener);
+
+    useStore.setState({ mainData: 'updated' });
+    useStore.namespaces.cart.setState({ items: [{ price: 1 }, { price: 2 }] });
+    expect(listener).not.toHaveBeenCalled();
+
+    useStore.namespaces.cart.setState({ items: [] });
+    expect(listener).toHaveBeenCalledWith(0, 2);
+  });
+
+  test('should keep the value in the store state when a key is provided', () => {
+    const useStore = createStore();
+    const { store: useDerivedStore } = createDerived(
+      useStore,
+      [cart],
+      (cartState) => cartState.items.length,
+      { key: 'itemCount' }
+    );
+    expect(useDerivedStore).toBe(useStore);
+    expect(useDerivedStore.getState().itemCount).toBe(2);
+    expectType<number>(useDerivedStore.getState().itemCount);
+
+    const listener = vi.fn();
+    useDerivedStore.subscribe(listener);
+    useDerivedStore.namespaces.cart.setState({ items: [] });
+
+    // the derived key is updated as part of the same update
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(useDerivedStore.getState().itemCount).toBe(0);
+
+    expect(() => useDerivedStore.setState({ itemCount: 5 })).toThrow(
+      'Cannot set derived key itemCount'
+    );
+    expect(useDerivedStore.getState().itemCount).toBe(0);
+
+    // other updates still work after a rejected update
+    useDerivedStore.setState({ mainData: 'updated' });
+    expect(useDerivedStore.getState().mainData).toBe('updated');
+  });
+
+  test('should recompute derived keys when a saved state is restored', () => {
+    const useStore = createStore();
+    const { store: useDerivedStore } = createDerived(
+      useStore,
+      [cart],
+      (cartState) => cartState.items.length,
+      { key: 'itemCount' }
+    );
+    const saved = useDerivedStore.getState();
+
+    useDerivedStore.namespaces.cart.setState({ items: [] });
+    expect(useDerivedStore.getState().itemCount).toBe(0);
+
+    useDerivedStore.setState(saved, true);
+    expect(useDerivedStore.getState().itemCount).toBe(2);
+
+    // the restored value is the computed one, not the one in the restored state
+    useDerivedStore.setState({ ...saved, itemCount: 5 }, true);
+    expect(useDerivedStore.getState().itemCount).toBe(2);
+  });
+
+  test('should render the derived value', () => {
+    const useStore = createStore();
+    const useCount = createDerived(
+      useStore,
+      [cart],
+      (cartState) => cartState.items.length
+    );
+
+    const Count = () => {
+      const count = useCount();
+      const isEmpty = useCount((count) => count === 0);
+      return (
+        <p data-testid="count">
+          {count} {String(isEmpty)}
+        </p>
+      );
+    };
+
+    render(<Count />);
+    expect(screen.getByTestId('count')).toHaveTextContent('2 false');
+
+    act(() => {
+      useStore.namespaces.cart.setState({ items: [] });
+    });
+    expect(screen.getByTestId('count')).toHaveTextContent('0 true');
+  });
+});
@@ -0,0 +1,136 @@
+import { expectType } from 'ts-expect';
+import { describe, expect, test } from 'vitest';
+import { temporal } from 'zundo';
+import { create } from 'zustand';
+import { ExtractNamespace } from '../src/types';
+import {
+  addNamespace,
+  createNamespace,
+  describeNamespaces,
+  namespaced,
+} from '../src/utils';
+
+describe('Describing namespaces', () => {
+  const subNamespace = createNamespace(
+    'subNamespace',
+    temporal(() => ({
+      dataInSubNamespace: 'data',
+    })),
+    { flatten: true, separator: '.' }
+  );
+
+  const namespaceA = createNamespace<
+    { dataInNamespaceA: string } & ExtractNamespace<typeof subNamespace>
+  >()(
+    'namespaceA',
+    namespaced(
+      (state) => () => ({
+        dataInNamespaceA: 'data',
+        ...state,
+      }),
+      { namespaces: [subNamespace] }
+    )
+  );
+
+  const namespaceB = createNamespace(
+    'namespaceB',
+    temporal(() => ({
+      dataInNamespaceB: 'data',
+      getDataInNamespaceB: () => 'data',
+    }))
+  );
+
+  const createStore = () =>
+    create(
+      namespaced(
+        (state) => () => ({
+          mainData: 'data',
+          ...state,
+        }),
+        { namespaces: [namespaceA, namespaceB] }
+      )
+    );
+
+  test('should describe the namespace tree', () => {
+    const useStore = createStore();
+
+    expect(describeNamespaces(useStore)).toEqual({
+      namespaceA: {
+        name: 'namespaceA',
+        path: ['namespaceA'],
+        flatten: false,
+        separator: '_',
+        keyCodec: 'separator',
+        keys: ['dataInNamespaceA'],
+        mutators: [],
+        namespaces: {
+          subNamespace: {
+            name: 'subNamespace',
+            path: ['namespaceA', 'subNamespace'],
+            flatten: true,
+            separator: '.',
+            keyCodec: 'separator',
+            keys: ['dataInSubNamespace'],
+            mutators: ['temporal'],
+            namespaces: {},
+          },
+        },
+      },
+      namespaceB: {
+        name: 'namespaceB',
+        path: ['namespaceB'],
+        flatten: false,
+        separator: '_',
+        keyCodec: 'separator',
+        keys: ['dataInNamespaceB', 'getDataInNamespaceB'],
+        mutators: ['temporal'],
+        namespaces: {},
+      },
+    });
+  });
+
+  test('should type the namespace tree', () => {
+    const useStore = createStore();
+    const descriptions = describeNamespaces(useStore);
+
+    expectType<'namespaceA'>(descriptions.namespaceA.name);
+    expectType<'subNamespace'>(
+      descriptions.namespaceA.namespaces.subNamespace.name
+    );
+    expectType<('dataInNamespaceB' | 'getDataInNamespaceB')[]>(
+      descriptions.namespaceB.keys
+    );
+    expectType<'temporal'[]>(descriptions.namespaceB.mutators);
+    expectType<'temporal'[]>(
+      descriptions.namespaceA.namespaces.subNamespace.mutators
+    );
+  });
+
+  test('should describe namespaces that were added later', () => {
+    const useStore = createStore();
+    const namespaceC = createNamespace('namespaceC', () => ({
+      dataInNamespaceC: 'data',
+    }));
+
+    const useStoreWithC = addNamespace(useStore, namespaceC);
+
+    expect(describeNamespaces(useStoreWithC).namespaceC).toEqual({
+      name: 'namespaceC',
+      path: ['namespaceC'],
+      flatten: false,
+      separator: '_',
+      keyCodec: 'separator',
+      keys: ['dataInNamespaceC'],
+      mutators: [],
+      namespaces: {},
+    });
+  });
+
+  test('should describe the namespaces of a namespace', () => {
+    const useStore = createStore();
+
+    expect(
+      Object.keys(describeNamespaces(useStore.namespaces.namespaceA))
+    ).toEqual(['subNamespace']);
+  });
+});
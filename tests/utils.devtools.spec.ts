@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import {
+  createNamespace,
+  getNamespaceHooks,
+  namespaced,
+  namespacedDevtools,
+} from '../src/utils';
+import { ExtractNamespace } from '../src/types';
+
+type SubNamespace = {
+  data: string;
+  setData: (data: string) => void;
+};
+
+type Namespace1 = {
+  data: string;
+  setData: (data: string) => void;
+} & ExtractNamespace<typeof subNamespace>;
+
+const subNamespace = createNamespace<SubNamespace>()(
+  'subNamespace',
+  (set) => ({
+    data: 'data',
+    setData: (data) =>
+      set({ data }, false, 'setData'),
+  }),
+  { flatten: true }
+);
+
+const namespace1 = createNamespace<Namespace1>()(
+  'namespace1',
+  namespaced(
+    (state) => (set) => ({
+      data: 'data',
+      setData: (data) =>
+        set({ data }, false, { type: 'setData' }),
+      ...state,
+    }),
+    { namespaces: [subNamespace] }
+  )
+);
+
+describe('Namespaced devtools', () => {
+  let listener: (message: any) => void;
+  const connection = {
+    init: vi.fn(),
+    send: vi.fn(),
+    subscribe: vi.fn((l: (message: any) => void) => {
+      listener = l;
+      return () => {};
+    }),
+  };
+
+  beforeEach(() => {
+    (window as any).__REDUX_DEVTOOLS_EXTENSION__ = {
+      connect: () => connection,
+    };
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    delete (window as any).__REDUX_DEVTOOLS_EXTENSION__;
+  });
+
+  const createStore = () =>
+    create(
+      namespacedDevtools(
+        namespaced(
+          (state) => () => ({
+            data: 'data',
+            ...state,
+          }),
+          { namespaces: [namespace1] }
+        )
+      )
+    );
+
+  test('should label updates with the namespace path', () => {
+    const useStore = createStore();
+    const { namespace1: useNamespace1 } = getNamespaceHooks(
+      useStore,
+      namespace1
+    );
+    const { subNamespace: useSubNamespace } = getNamespaceHooks(
+      useNamespace1,
+      subNamespace
+    );
+
+    useSubNamespace.getState().setData('updated');
+    useNamespace1.getState().setData('updated');
+    useSubNamespace.setState({ data: 'updated again' });
+    useStore.namespaces.namespace1.setState({ data: 'reset' }, false, 'reset');
+    useStore.setState({ data: 'updated' }, false, 'root');
+
+    expect(connection.send.mock.calls.map(([action]) => action)).toEqual([
+      { type: 'namespace1/subNamespace/setData' },
+      { type: 'namespace1/setData' },
+      { type: 'namespace1/subNamespace' },
+      { type: 'namespace1/reset' },
+      { type: 'root' },
+    ]);
+    expect(connection.send).toHaveBeenLastCalledWith(
+      { type: 'root' },
+      useStore.getState()
+    );
+  });
+
+  test('should restore nested and flattened namespaces when jumping to a state', () => {
+    const useStore = createStore();
+    const initialState = JSON.stringify(useStore.getState());
+
+    useStore.getState().namespace1.setData('updated');
+    useStore.getState().namespace1.subNamespace_setData('updated');
+
+    listener({
+      type: 'DISPATCH',
+      payload: { type: 'JUMP_TO_STATE' },
+      state: initialState,
+    });
+
+    expect(useStore.getState().namespace1.data).toBe('data');
+    expect(useStore.getState().namespace1.subNamespace_data).toBe('data');
+    // actions are kept, even though they can not be serialized
+    expect(useStore.getState().namespace1.setData).toEqual(
+      expect.any(Function)
+    );
+    expect(useStore.getState().namespace1.subNamespace_setData).toEqual(
+      expect.any(Function)
+    );
+    // jumping is not recorded as a new action
+    expect(connection.send).toHaveBeenCalledTimes(2);
+  });
+
+  test('should jump to a state in strict stores', () => {
+    const namespaceA = createNamespace('namespaceA', () => ({
+      dataInNamespaceA: 'data',
+    }));
+    const useStore = create(
+      namespacedDevtools(namespaced({ namespaces: [namespaceA], strict: true }))
+    );
+    const initialState = JSON.stringify(useStore.getState());
+    useStore.namespaces.namespaceA.setState({ dataInNamespaceA: 'updated' });
+
+    listener({
+      type: 'DISPATCH',
+      payload: { type: 'JUMP_TO_STATE' },
+      state: initialState,
+    });
+
+    expect(useStore.getState().namespaceA.dataInNamespaceA).toBe('data');
+  });
+});
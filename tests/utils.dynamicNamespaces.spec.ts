@@ -0,0 +1,190 @@
+import { expectType } from 'ts-expect';
+import { describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import {
+  addNamespace,
+  createNamespace,
+  getNamespaceHooks,
+  namespaced,
+  removeNamespace,
+} from '../src/utils';
+
+describe('Dynamic namespaces', () => {
+  const namespaceA = createNamespace('namespaceA', () => ({
+    dataInNamespaceA: 'data',
+  }));
+
+  const createStore = () =>
+    create(
+      namespaced(
+        (state) => () => ({
+          mainData: 'data',
+          ...state,
+        }),
+        { namespaces: [namespaceA] }
+      )
+    );
+
+  test('should add a nested namespace to a live store', () => {
+    const useStore = createStore();
+    type NamespaceB = {
+      dataInNamespaceB: string;
+      setData: (data: string) => void;
+    };
+    const namespaceB = createNamespace<NamespaceB>()('namespaceB', (set) => ({
+      dataInNamespaceB: 'data',
+      setData: (data) => set({ dataInNamespaceB: data }),
+    }));
+
+    const useWiderStore = addNamespace(useStore, namespaceB);
+
+    expect(useWiderStore).toBe(useStore);
+    expect(useWiderStore.getState().namespaceB.dataInNamespaceB).toBe('data');
+    expect(useWiderStore.namespaces.namespaceB.getState()).toEqual(
+      useWiderStore.getState().namespaceB
+    );
+    expectType<string>(useWiderStore.getState().namespaceB.dataInNamespaceB);
+    expectType<string>(useWiderStore.getState().namespaceA.dataInNamespaceA);
+
+    useWiderStore.getState().namespaceB.setData('updated');
+    expect(useWiderStore.getState().namespaceB.dataInNamespaceB).toBe(
+      'updated'
+    );
+  });
+
+  test('should route root updates to an added namespace', () => {
+    const useStore = createStore();
+    const namespaceB = createNamespace(
+      'namespaceB',
+      () => ({
+        dataInNamespaceB: 'data',
+      }),
+      { flatten: true }
+    );
+    const useWiderStore = addNamespace(useStore, namespaceB);
+
+    useWiderStore.setState({ namespaceB_dataInNamespaceB: 'updated' });
+
+    expect(useWiderStore.getState()).toEqual({
+      mainData: 'data',
+      namespaceA: { dataInNamespaceA: 'data' },
+      namespaceB_dataInNamespaceB: 'updated',
+    });
+    expect(useWiderStore.namespaces.namespaceB.getState()).toEqual({
+      dataInNamespaceB: 'updated',
+    });
+    expect(useWiderStore.namespaces.namespaceB.getInitialState()).toEqual({
+      dataInNamespaceB: 'data',
+    });
+  });
+
+  test('should restore a saved state in one update after a namespace is added', () => {
+    const useStore = createStore();
+    const namespaceB = createNamespace('namespaceB', () => ({
+      dataInNamespaceB: 'data',
+    }));
+    const useWiderStore = addNamespace(useStore, namespaceB);
+    const savedState = useWiderStore.getState();
+    useWiderStore.namespaces.namespaceA.setState({
+      dataInNamespaceA: 'updated',
+    });
+    useWiderStore.namespaces.namespaceB.setState({
+      dataInNamespaceB: 'updated',
+    });
+    const listener = vi.fn();
+    useWiderStore.subscribe(listener);
+
+    useWiderStore.setState(savedState, true);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(useWiderStore.getState()).toEqual({
+      mainData: 'data',
+      namespaceA: { dataInNamespaceA: 'data' },
+      namespaceB: { dataInNamespaceB: 'data' },
+    });
+  });
+
+  test('should add a namespace that has its own namespaces', () => {
+    const useStore = createStore();
+    const subNamespace = createNamespace('subNamespace', () => ({
+      dataInSubNamespace: 'data',
+    }));
+    const namespaceB = createNamespace(
+      'namespaceB',
+      namespaced(
+        (state) => () => ({
+          dataInNamespaceB: 'data',
+          ...state,
+        }),
+        { namespaces: [subNamespace] }
+      )
+    );
+
+    const useWiderStore = addNamespace(useStore, namespaceB);
+    const { namespaceB: useNamespaceB } = getNamespaceHooks(
+      useWiderStore,
+      namespaceB
+    );
+    const { subNamespace: useSubNamespace } = getNamespaceHooks(
+      useNamespaceB,
+      subNamespace
+    );
+
+    useSubNamespace.setState({ dataInSubNamespace: 'updated' });
+
+    expect(useWiderStore.getState().namespaceB).toEqual({
+      dataInNamespaceB: 'data',
+      subNamespace: { dataInSubNamespace: 'updated' },
+    });
+  });
+
+  test('should throw when adding a namespace that already exists', () => {
+    const useStore = createStore();
+
+    expect(() => addNamespace(useStore, namespaceA)).toThrow();
+  });
+
+  test('should remove a nested namespace', () => {
+    const useStore = createStore();
+
+    removeNamespace(useStore, 'namespaceA');
+
+    expect(useStore.getState()).toEqual({ mainData: 'data' });
+    expect(useStore.namespaces.namespaceA).toBeUndefined();
+  });
+
+  test('should remove a flattened namespace', () => {
+    const useStore = createStore();
+    const namespaceB = createNamespace(
+      'namespaceB',
+      () => ({
+        dataInNamespaceB: 'data',
+        otherDataInNamespaceB: 'data',
+      }),
+      { flatten: true }
+    );
+    const useWiderStore = addNamespace(useStore, namespaceB);
+
+    removeNamespace(useWiderStore, 'namespaceB');
+
+    expect(useWiderStore.getState()).toEqual({
+      mainData: 'data',
+      namespaceA: { dataInNamespaceA: 'data' },
+    });
+
+    // updates to the removed keys are no longer routed to the namespace
+    useWiderStore.setState({ namespaceB_dataInNamespaceB: 'updated' });
+    expect(useWiderStore.getState()).toEqual({
+      mainData: 'data',
+      namespaceA: { dataInNamespaceA: 'data' },
+      namespaceB_dataInNamespaceB: 'updated',
+    });
+  });
+
+  test('should throw when removing a namespace that does not exist', () => {
+    const useStore = createStore();
+
+    // @ts-expect-error - namespaceB is not a namespace of the store
+    expect(() => removeNamespace(useStore, 'namespaceB')).toThrow();
+  });
+});
@@ -0,0 +1,177 @@
+import '@testing-library/jest-dom';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import React from 'react';
+import { expectType } from 'ts-expect';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import {
+  createNamespaceFamily,
+  getNamespaceFamilyHooks,
+  namespaced,
+} from '../src/utils';
+import { ExtractNamespaces } from '../src/types';
+
+type Tab = {
+  title: string;
+  setTitle: (title: string) => void;
+};
+
+type TabId = 'first' | 'second';
+
+const tabs = createNamespaceFamily<Tab>()('tabs', (id: TabId) => (set) => ({
+  title: `Tab ${id}`,
+  setTitle: (title) => set({ title }),
+}));
+
+const documents = createNamespaceFamily(
+  'documents',
+  (id: string) => () => ({
+    content: `Document ${id}`,
+  }),
+  { flatten: true }
+);
+
+const createStore = () =>
+  create<ExtractNamespaces<[typeof tabs, typeof documents]>>()(
+    namespaced({ namespaces: [tabs, documents] })
+  );
+
+afterEach(cleanup);
+
+describe('Namespace families', () => {
+  test('should create nested members on demand', () => {
+    const useStore = createStore();
+    const { tabs: useTab } = getNamespaceFamilyHooks(useStore, tabs);
+
+    expect(useStore.getState().tabs).toEqual({});
+    expect(useTab.ids()).toEqual([]);
+
+    const useFirstTab = useTab.get('first');
+    useFirstTab.getState().setTitle('Updated');
+    useTab.get('second');
+
+    expect(useTab.get('first')).toBe(useFirstTab);
+    expect(useTab('first')).toBe(useFirstTab);
+    expect(useTab.ids()).toEqual(['first', 'second']);
+    expectType<TabId[]>(useTab.ids());
+    expect(useStore.getState().tabs).toEqual({
+      first: { title: 'Updated', setTitle: expect.any(Function) },
+      second: { title: 'Tab second', setTitle: expect.any(Function) },
+    });
+    expect(useFirstTab.getRawState()).toEqual({
+      tabs: { first: { title: 'Updated', setTitle: expect.any(Function) } },
+    });
+  });
+
+  test('should create flattened members on demand', () => {
+    const useStore = createStore();
+    const { documents: useDocument } = getNamespaceFamilyHooks(
+      useStore,
+      documents
+    );
+
+    const useReadme = useDocument.get('readme');
+    useReadme.setState({ content: 'Updated' });
+    useDocument.get('license');
+
+    expect(useStore.getState()).toEqual({
+      tabs: {},
+      documents_readme_content: 'Updated',
+      documents_license_content: 'Document license',
+    });
+    expect(useReadme.getState()).toEqual({ content: 'Updated' });
+  });
+
+  test('should remove the state of disposed members', () => {
+    const useStore = createStore();
+    const { tabs: useTab, documents: useDocument } = getNamespaceFamilyHooks(
+      useStore,
+      tabs,
+      documents
+    );
+
+    useTab.get('first');
+    useTab.get('second');
+    useDocument.get('readme');
+
+    useTab.dispose('first');
+    useDocument.dispose('readme');
+
+    expect(useTab.ids()).toEqual(['second']);
+    expect(useDocument.ids()).toEqual([]);
+    expect(useStore.getState()).toEqual({
+      tabs: {
+        second: { title: 'Tab second', setTitle: expect.any(Function) },
+      },
+    });
+
+    // disposed members start over when accessed again
+    expect(() => useTab('first')).toThrow('Member first not found');
+    expect(useTab.get('first').getState().title).toBe('Tab first');
+  });
+
+  test('should render members in components', () => {
+    const useStore = createStore();
+    const { tabs: useTab } = getNamespaceFamilyHooks(useStore, tabs);
+
+    const TabComponent = ({ id }: { id: TabId }) => {
+      const title = useTab(id)((state) => state.title);
+      return <p data-testid={id}>{title}</p>;
+    };
+
+    useTab.get('first');
+    useTab.get('second');
+    render(
+      <>
+        <TabComponent id="first" />
+        <TabComponent id="second" />
+      </>
+    );
+
+    act(() => {
+      useTab('second').getState().setTitle('Updated');
+    });
+
+    expect(screen.getByTestId('first')).toHaveTextContent('Tab first');
+    expect(screen.getByTestId('second')).toHaveTextContent('Updated');
+  });
+
+  test('should render new members next to components subscribed to the store', () => {
+    const useStore = createStore();
+    const { tabs: useTab } = getNamespaceFamilyHooks(useStore, tabs);
+    const consoleError = vi.spyOn(console, 'error');
+
+    const Count = () => {
+      const count = useStore((state) => Object.keys(state.tabs).length);
+      return <p data-testid="count">{count}</p>;
+    };
+    const TabComponent = ({ id }: { id: TabId }) => {
+      const title = useTab(id)((state) => state.title);
+      return <p data-testid={id}>{title}</p>;
+    };
+
+    useTab.get('first');
+    const { rerender } = render(
+      <>
+        <Count />
+        <TabComponent id="first" />
+      </>
+    );
+
+    act(() => {
+      useTab.get('second');
+    });
+    rerender(
+      <>
+        <Count />
+        <TabComponent id="first" />
+        <TabComponent id="second" />
+      </>
+    );
+
+    expect(screen.getByTestId('count')).toHaveTextContent('2');
+    expect(screen.getByTestId('second')).toHaveTextContent('Tab second');
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
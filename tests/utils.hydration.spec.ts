@@ -0,0 +1,155 @@
+import { describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import {
+  createNamespace,
+  dehydrate,
+  getNamespaceHooks,
+  hydrate,
+  namespaced,
+  symbolKeyCodec,
+} from '../src/utils';
+
+describe('Dehydrating and hydrating namespaces', () => {
+  const subNamespace = createNamespace(
+    'subNamespace',
+    () => ({
+      dataInSubNamespace: 'data',
+      getSubNamespaceData: () => 'subNamespace',
+    }),
+    { flatten: true, separator: '.' }
+  );
+
+  const namespaceA = createNamespace(
+    'namespaceA',
+    namespaced(
+      (state) => () => ({
+        dataInNamespaceA: 'data',
+        getNamespaceAData: () => 'namespaceA',
+        ...state,
+      }),
+      { namespaces: [subNamespace] }
+    )
+  );
+
+  const namespaceB = createNamespace(
+    'namespaceB',
+    () => ({
+      dataInNamespaceB: 'data',
+    }),
+    { flatten: true }
+  );
+
+  const createStore = () =>
+    create(
+      namespaced(
+        (state) => () => ({
+          mainData: 'data',
+          ...state,
+        }),
+        { namespaces: [namespaceA, namespaceB] }
+      )
+    );
+
+  test('should create a snapshot of the namespaces without actions', () => {
+    const useStore = createStore();
+
+    expect(JSON.parse(dehydrate(useStore))).toEqual({
+      namespaceA: {
+        dataInNamespaceA: 'data',
+        'subNamespace.dataInSubNamespace': 'data',
+      },
+      namespaceB_dataInNamespaceB: 'data',
+    });
+  });
+
+  test('should only include the given namespaces', () => {
+    const useStore = createStore();
+
+    expect(JSON.parse(dehydrate(useStore, { include: [namespaceB] }))).toEqual({
+      namespaceB_dataInNamespaceB: 'data',
+    });
+  });
+
+  test('should escape the snapshot for script tags', () => {
+    const useStore = createStore();
+    useStore.namespaces.namespaceA.setState({
+      dataInNamespaceA: '</script><script>alert("&")</script>\u2028',
+    });
+
+    const snapshot = dehydrate(useStore);
+
+    expect(snapshot).not.toMatch(/[<>&\u2028]/);
+    expect(JSON.parse(snapshot).namespaceA.dataInNamespaceA).toBe(
+      '</script><script>alert("&")</script>\u2028'
+    );
+  });
+
+  test('should hydrate the namespaces in one update and keep actions', () => {
+    const serverStore = createStore();
+    const { namespaceA: useServerNamespaceA } = getNamespaceHooks(
+      serverStore,
+      namespaceA
+    );
+    useServerNamespaceA.setState({ dataInNamespaceA: 'server' });
+    useServerNamespaceA.namespaces.subNamespace.setState({
+      dataInSubNamespace: 'server',
+    });
+    serverStore.namespaces.namespaceB.setState({ dataInNamespaceB: 'server' });
+
+    const snapshot = dehydrate(serverStore);
+
+    const clientStore = createStore();
+    const listener = vi.fn();
+    clientStore.subscribe(listener);
+
+    hydrate(clientStore, snapshot);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    const state = clientStore.getState();
+    expect(state.namespaceA.dataInNamespaceA).toBe('server');
+    expect(state.namespaceA['subNamespace.dataInSubNamespace']).toBe('server');
+    expect(state.namespaceB_dataInNamespaceB).toBe('server');
+    expect(state.namespaceA.getNamespaceAData()).toBe('namespaceA');
+    expect(state.namespaceA['subNamespace.getSubNamespaceData']()).toBe(
+      'subNamespace'
+    );
+    expect(state.mainData).toBe('data');
+  });
+
+  test('should not overwrite actions with values from the snapshot', () => {
+    const useStore = createStore();
+
+    hydrate(useStore, {
+      namespaceA: { dataInNamespaceA: 'snapshot', getNamespaceAData: null },
+    });
+
+    expect(useStore.getState().namespaceA.dataInNamespaceA).toBe('snapshot');
+    expect(useStore.getState().namespaceA.getNamespaceAData()).toBe(
+      'namespaceA'
+    );
+  });
+
+  test('should throw for namespaces flattened into symbol keys', () => {
+    const symbolNamespace = createNamespace(
+      'symbolNamespace',
+      () => ({
+        count: 1,
+      }),
+      { flatten: true, keyCodec: symbolKeyCodec }
+    );
+    const parentNamespace = createNamespace(
+      'parentNamespace',
+      namespaced({ namespaces: [symbolNamespace] })
+    );
+    const useStore = create(
+      namespaced({ namespaces: [namespaceB, parentNamespace] })
+    );
+
+    expect(() => dehydrate(useStore)).toThrow(
+      'Namespace parentNamespace/symbolNamespace cannot be dehydrated, as its keys are symbols'
+    );
+    expect(JSON.parse(dehydrate(useStore, { include: [namespaceB] }))).toEqual(
+      { namespaceB_dataInNamespaceB: 'data' }
+    );
+  });
+});
@@ -0,0 +1,235 @@
+import { expectType } from 'ts-expect';
+import { describe, expect, test } from 'vitest';
+import { create } from 'zustand';
+import { FilterByPrefix, KeyCodec, PrefixObject } from '../src/types';
+import {
+  camelCaseKeyCodec,
+  createNamespace,
+  fromNamespace,
+  getNamespaceHooks,
+  getUnprefixedObject,
+  namespaced,
+  separatorKeyCodec,
+  symbolKeyCodec,
+  toNamespace,
+} from '../src/utils';
+
+declare module '../src/types' {
+  // eslint-disable-next-line
+  interface KeyCodecs<Codec, Name extends string, Key> {
+    suffix: {
+      encode: `${Key & string}@${Name}`;
+      decode: Key extends `${infer V}@${Name}` ? V : never;
+    };
+  }
+}
+
+const suffixKeyCodec: KeyCodec<'suffix'> = {
+  id: 'suffix',
+  encode: (name, key) => `${key}@${name}`,
+  decode: (name, key) =>
+    typeof key === 'string' && key.endsWith(`@${name}`)
+      ? key.slice(0, -name.length - 1)
+      : undefined,
+};
+
+describe('Key codecs', () => {
+  const separatorNamespace = createNamespace(
+    'separatorNamespace',
+    () => ({
+      dataInSeparatorNamespace: 'data',
+    }),
+    { flatten: true, separator: '::' }
+  );
+
+  const camelCaseNamespace = createNamespace(
+    'camelCaseNamespace',
+    () => ({
+      dataInCamelCaseNamespace: 'data',
+    }),
+    { flatten: true, keyCodec: camelCaseKeyCodec }
+  );
+
+  const symbolNamespace = createNamespace(
+    'symbolNamespace',
+    () => ({
+      dataInSymbolNamespace: 'data',
+    }),
+    { flatten: true, keyCodec: symbolKeyCodec }
+  );
+
+  const suffixNamespace = createNamespace(
+    'suffixNamespace',
+    () => ({
+      dataInSuffixNamespace: 'data',
+    }),
+    { flatten: true, keyCodec: suffixKeyCodec }
+  );
+
+  const createStore = () =>
+    create(
+      namespaced(
+        (state) => () => ({
+          mainData: 'data',
+          ...state,
+        }),
+        {
+          namespaces: [
+            separatorNamespace,
+            camelCaseNamespace,
+            symbolNamespace,
+            suffixNamespace,
+          ],
+        }
+      )
+    );
+
+  test('should flatten with multi-character separators', () => {
+    const useStore = createStore();
+    const { separatorNamespace: useSeparatorNamespace } = getNamespaceHooks(
+      useStore,
+      separatorNamespace
+    );
+
+    useSeparatorNamespace.setState({ dataInSeparatorNamespace: 'updated' });
+
+    expect(
+      useStore.getState()['separatorNamespace::dataInSeparatorNamespace']
+    ).toBe('updated');
+    expect(useSeparatorNamespace.getState()).toEqual({
+      dataInSeparatorNamespace: 'updated',
+    });
+    expect(
+      getUnprefixedObject('a', { 'a::b': 'data', 'a:c': 'data' }, '::')
+    ).toEqual({ b: 'data' });
+    expect(
+      getUnprefixedObject('a', { a__b: 'data' }, separatorKeyCodec('__'))
+    ).toEqual({ b: 'data' });
+  });
+
+  test('should flatten with camel case keys', () => {
+    const useStore = createStore();
+
+    useStore.setState({
+      camelCaseNamespaceDataInCamelCaseNamespace: 'updated',
+    });
+
+    expect(useStore.namespaces.camelCaseNamespace.getState()).toEqual({
+      dataInCamelCaseNamespace: 'updated',
+    });
+    expect(
+      toNamespace(
+        { camelCaseNamespaceData: 'data', camelCaseNamespace_other: 'data' },
+        camelCaseNamespace
+      )
+    ).toEqual({ data: 'data' });
+
+    expectType<string>(
+      useStore.getState().camelCaseNamespaceDataInCamelCaseNamespace
+    );
+  });
+
+  test('should reject keys that camel case can not decode', () => {
+    for (const key of ['ID', '_private', '1st']) {
+      const namespace = createNamespace(
+        'namespace',
+        () => ({
+          [key]: 'data',
+        }),
+        { flatten: true, keyCodec: camelCaseKeyCodec }
+      );
+      expect(() => create(namespaced({ namespaces: [namespace] }))).toThrow(
+        `Key ${key} of namespace namespace cannot be encoded with the camelCase key codec`
+      );
+    }
+  });
+
+  test('should round trip camel case keys', () => {
+    const namespace = createNamespace(
+      'namespace',
+      () => ({
+        url: 'data',
+        dataInNamespace: 'data',
+        a1: 'data',
+      }),
+      { flatten: true, keyCodec: camelCaseKeyCodec }
+    );
+    const useStore = create(namespaced({ namespaces: [namespace] }));
+
+    expect(useStore.getState()).toEqual({
+      namespaceUrl: 'data',
+      namespaceDataInNamespace: 'data',
+      namespaceA1: 'data',
+    });
+    expect(useStore.namespaces.namespace.getState()).toEqual({
+      url: 'data',
+      dataInNamespace: 'data',
+      a1: 'data',
+    });
+  });
+
+  test('should flatten with symbol keys', () => {
+    const useStore = createStore();
+    const key = Symbol.for(
+      'zustand-namespaces/symbolNamespace/dataInSymbolNamespace'
+    );
+
+    expect((useStore.getState() as any)[key]).toBe('data');
+    expect(Object.keys(useStore.getState())).not.toContain(key);
+
+    useStore.namespaces.symbolNamespace.setState({
+      dataInSymbolNamespace: 'updated',
+    });
+    expect((useStore.getState() as any)[key]).toBe('updated');
+
+    useStore.setState({ [key]: 'root' } as any);
+    expect(useStore.namespaces.symbolNamespace.getState()).toEqual({
+      dataInSymbolNamespace: 'root',
+    });
+  });
+
+  test('should flatten with a custom key codec', () => {
+    const useStore = createStore();
+
+    useStore.namespaces.suffixNamespace.setState({
+      dataInSuffixNamespace: 'updated',
+    });
+
+    expect(useStore.getState()['dataInSuffixNamespace@suffixNamespace']).toBe(
+      'updated'
+    );
+    expect(
+      fromNamespace({ dataInSuffixNamespace: 'data' }, suffixNamespace)
+    ).toEqual({ 'dataInSuffixNamespace@suffixNamespace': 'data' });
+  });
+
+  test('should map keys at the type level', () => {
+    expectType<{ 'a::b': string }>(
+      {} as PrefixObject<'a', { b: string }, '::'>
+    );
+    expectType<{ aB: string }>(
+      {} as PrefixObject<'a', { b: string }, typeof camelCaseKeyCodec>
+    );
+    expectType<{ b: string }>(
+      {} as FilterByPrefix<
+        'a',
+        { aB: string; ab: string },
+        typeof camelCaseKeyCodec
+      >
+    );
+    expectType<{ b: string }>(
+      {} as FilterByPrefix<
+        'a',
+        { 'b@a': string; 'b@c': string },
+        typeof suffixKeyCodec
+      >
+    );
+
+    createNamespace('namespace', () => ({ data: 'data' }), {
+      flatten: true,
+      separator: '_',
+      // @ts-expect-error - a namespace is keyed with a separator or a key codec
+      keyCodec: camelCaseKeyCodec,
+    });
+  });
+});
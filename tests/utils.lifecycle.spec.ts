@@ -0,0 +1,176 @@
+import { describe, expect, test, vi } from 'vitest';
+import { create, createStore, StoreApi } from 'zustand';
+import {
+  addNamespace,
+  adoptStore,
+  createNamespace,
+  destroy,
+  namespaced,
+  removeNamespace,
+} from '../src/utils';
+
+const createLifecycle = (events: string[], name: string) => ({
+  onInit: () => events.push(`init ${name}`),
+  onMount: (api: StoreApi<any>) =>
+    events.push(`mount ${name} ${JSON.stringify(api.getState())}`),
+  onDestroy: () => events.push(`destroy ${name}`),
+});
+
+const createStoreWithLifecycle = (events: string[]) => {
+  const subNamespace = createNamespace(
+    'subNamespace',
+    () => ({
+      dataInSubNamespace: 'data',
+    }),
+    createLifecycle(events, 'subNamespace')
+  );
+
+  const namespaceA = createNamespace(
+    'namespaceA',
+    namespaced(
+      (state) => () => ({
+        dataInNamespaceA: 'data',
+        ...state,
+      }),
+      { namespaces: [subNamespace] }
+    ),
+    createLifecycle(events, 'namespaceA')
+  );
+
+  const namespaceB = createNamespace(
+    'namespaceB',
+    () => ({
+      dataInNamespaceB: 'data',
+    }),
+    { flatten: true, ...createLifecycle(events, 'namespaceB') }
+  );
+
+  return create(namespaced({ namespaces: [namespaceA, namespaceB] }));
+};
+
+describe('Namespace lifecycle', () => {
+  test('should init namespaces once they are added to their parent', () => {
+    const apis: StoreApi<any>[] = [];
+    const namespaceA = createNamespace(
+      'namespaceA',
+      () => ({ dataInNamespaceA: 'data' }),
+      { onInit: (api) => apis.push(api) }
+    );
+
+    const useStore = create(namespaced({ namespaces: [namespaceA] }));
+
+    expect(apis).toEqual([useStore.namespaces.namespaceA]);
+  });
+
+  test('should mount namespaces once their state is in the store', async () => {
+    const events: string[] = [];
+    createStoreWithLifecycle(events);
+
+    expect(events).toEqual([
+      'init subNamespace',
+      'init namespaceA',
+      'init namespaceB',
+    ]);
+
+    await Promise.resolve();
+
+    expect(events.slice(3)).toEqual([
+      'mount subNamespace {"dataInSubNamespace":"data"}',
+      'mount namespaceA {"dataInNamespaceA":"data","subNamespace":{"dataInSubNamespace":"data"}}',
+      'mount namespaceB {"dataInNamespaceB":"data"}',
+    ]);
+  });
+
+  test('should mount added namespaces right away', () => {
+    const onMount = vi.fn();
+    const useStore = create(
+      namespaced({
+        namespaces: [
+          createNamespace('namespaceA', () => ({ dataInNamespaceA: 'data' })),
+        ],
+      })
+    );
+
+    const useStoreWithC = addNamespace(
+      useStore,
+      createNamespace('namespaceC', () => ({ dataInNamespaceC: 'data' }), {
+        onMount,
+      })
+    );
+
+    expect(onMount).toHaveBeenCalledWith(useStoreWithC.namespaces.namespaceC);
+    expect(onMount.mock.calls[0][0].getState()).toEqual({
+      dataInNamespaceC: 'data',
+    });
+  });
+
+  test('should destroy children before their parents', async () => {
+    const events: string[] = [];
+    const useStore = createStoreWithLifecycle(events);
+    await Promise.resolve();
+    events.length = 0;
+
+    destroy(useStore);
+    destroy(useStore);
+
+    expect(events).toEqual([
+      'destroy namespaceB',
+      'destroy subNamespace',
+      'destroy namespaceA',
+    ]);
+    expect(useStore.getState().namespaceA.dataInNamespaceA).toBe('data');
+  });
+
+  test('should not mount namespaces that are destroyed first', async () => {
+    const events: string[] = [];
+    const useStore = createStoreWithLifecycle(events);
+
+    destroy(useStore);
+    await Promise.resolve();
+
+    expect(events.some((event) => event.startsWith('mount'))).toBe(false);
+  });
+
+  test('should unsubscribe listeners registered through namespaced apis', () => {
+    const useStore = createStoreWithLifecycle([]);
+    const listener = vi.fn();
+    const subListener = vi.fn();
+    useStore.namespaces.namespaceB.subscribe(listener);
+    useStore.namespaces.namespaceA.namespaces.subNamespace.subscribe(
+      subListener
+    );
+
+    destroy(useStore);
+    useStore.namespaces.namespaceB.setState({ dataInNamespaceB: 'updated' });
+    useStore.namespaces.namespaceA.namespaces.subNamespace.setState({
+      dataInSubNamespace: 'updated',
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(subListener).not.toHaveBeenCalled();
+  });
+
+  test('should destroy removed namespaces', () => {
+    const events: string[] = [];
+    const useStore = createStoreWithLifecycle(events);
+
+    removeNamespace(useStore, 'namespaceA');
+
+    expect(events.slice(3)).toEqual([
+      'destroy subNamespace',
+      'destroy namespaceA',
+    ]);
+  });
+
+  test('should stop syncing adopted stores', () => {
+    const legacyStore = createStore(() => ({ count: 0 }));
+    const useStore = create(
+      namespaced({ namespaces: [adoptStore('legacy', legacyStore)] })
+    );
+
+    destroy(useStore);
+    legacyStore.setState({ count: 1 });
+
+    expect(useStore.getState().legacy.count).toBe(0);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, test } from 'vitest';
+import { create } from 'zustand';
+import { ExtractNamespace } from '../src/types';
+import { createNamespace, getNamespaceHooks, namespaced } from '../src/utils';
+
+type Settings = {
+  settings: {
+    theme: string;
+    font: {
+      size: number;
+      family: string;
+    };
+  };
+  tags: string[];
+};
+
+const initialSettings = (): Settings => ({
+  settings: {
+    theme: 'light',
+    font: {
+      size: 12,
+      family: 'serif',
+    },
+  },
+  tags: ['a', 'b'],
+});
+
+describe('Merging namespace updates', () => {
+  const subNamespace = createNamespace('subNamespace', () => ({
+    dataInSubNamespace: 'data',
+    otherDataInSubNamespace: 'data',
+  }));
+
+  const deepNamespace = createNamespace<
+    Settings & ExtractNamespace<typeof subNamespace>
+  >()(
+    'deepNamespace',
+    namespaced((state) => () => ({ ...initialSettings(), ...state }), {
+      namespaces: [subNamespace],
+    }),
+    { merge: 'deep' }
+  );
+
+  const flatDeepNamespace = createNamespace<Settings>()(
+    'flatDeepNamespace',
+    initialSettings,
+    { merge: 'deep', flatten: true }
+  );
+
+  const shallowNamespace = createNamespace<Settings>()(
+    'shallowNamespace',
+    initialSettings
+  );
+
+  const customNamespace = createNamespace<Settings>()(
+    'customNamespace',
+    initialSettings,
+    {
+      // tags are appended instead of replaced
+      merge: (currentState, updatedState) => ({
+        ...currentState,
+        ...updatedState,
+        tags: [...currentState.tags, ...(updatedState.tags ?? [])],
+      }),
+    }
+  );
+
+  const createStore = () =>
+    create(
+      namespaced({
+        namespaces: [
+          deepNamespace,
+          flatDeepNamespace,
+          shallowNamespace,
+          customNamespace,
+        ],
+      })
+    );
+
+  test('should deep merge nested plain objects', () => {
+    const useStore = createStore();
+    const { deepNamespace: useDeepNamespace } = getNamespaceHooks(
+      useStore,
+      deepNamespace
+    );
+    const { tags } = useDeepNamespace.getState();
+
+    useDeepNamespace.setState({ settings: { font: { size: 14 } } });
+
+    expect(useDeepNamespace.getState().settings).toEqual({
+      theme: 'light',
+      font: { size: 14, family: 'serif' },
+    });
+    expect(useDeepNamespace.getState().tags).toBe(tags);
+    expect(useDeepNamespace.getState().subNamespace.dataInSubNamespace).toBe(
+      'data'
+    );
+  });
+
+  test('should replace arrays instead of merging them', () => {
+    const useStore = createStore();
+
+    useStore.namespaces.deepNamespace.setState({ tags: ['c'] });
+
+    expect(useStore.getState().deepNamespace.tags).toEqual(['c']);
+  });
+
+  test('should deep merge flattened namespaces', () => {
+    const useStore = createStore();
+    const { flatDeepNamespace: useFlatDeepNamespace } = getNamespaceHooks(
+      useStore,
+      flatDeepNamespace
+    );
+
+    useFlatDeepNamespace.setState({ settings: { theme: 'dark' } });
+
+    expect(useStore.getState().flatDeepNamespace_settings).toEqual({
+      theme: 'dark',
+      font: { size: 12, family: 'serif' },
+    });
+  });
+
+  test('should deep merge updates that are routed from the root', () => {
+    const useStore = createStore();
+
+    useStore.setState({
+      deepNamespace: {
+        ...useStore.getState().deepNamespace,
+        subNamespace: { dataInSubNamespace: 'updated' },
+      },
+    } as any);
+
+    expect(useStore.getState().deepNamespace.subNamespace).toEqual({
+      dataInSubNamespace: 'updated',
+      otherDataInSubNamespace: 'data',
+    });
+  });
+
+  test('should keep shallow merging by default', () => {
+    const useStore = createStore();
+
+    useStore.namespaces.shallowNamespace.setState({
+      // @ts-expect-error - nested objects are not partial when shallow merging
+      settings: { theme: 'dark' },
+    });
+
+    expect(useStore.getState().shallowNamespace.settings).toEqual({
+      theme: 'dark',
+    });
+  });
+
+  test('should merge with a custom merge function', () => {
+    const useStore = createStore();
+
+    useStore.namespaces.customNamespace.setState({ tags: ['c'] });
+
+    expect(useStore.getState().customNamespace.tags).toEqual(['a', 'b', 'c']);
+  });
+
+  test('should replace the state when replacing', () => {
+    const useStore = createStore();
+
+    useStore.namespaces.deepNamespace.setState(
+      {
+        ...useStore.getState().deepNamespace,
+        settings: { theme: 'dark', font: { size: 10, family: 'mono' } },
+      },
+      true
+    );
+
+    expect(useStore.getState().deepNamespace.settings).toEqual({
+      theme: 'dark',
+      font: { size: 10, family: 'mono' },
+    });
+  });
+});
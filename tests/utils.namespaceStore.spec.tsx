@@ -0,0 +1,145 @@
+import '@testing-library/jest-dom';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import React from 'react';
+import { expectType } from 'ts-expect';
+import { afterEach, describe, expect, test } from 'vitest';
+import { temporal } from 'zundo';
+import {
+  createNamespace,
+  createNamespaceStore,
+  getNamespaceHooks,
+  namespaced,
+} from '../src/utils';
+
+afterEach(cleanup);
+
+type SubNamespace = {
+  dataInSubNamespace: string;
+  updateSubNamespaceData: (data: string) => void;
+};
+
+type NamespaceA = {
+  dataInNamespaceA: string;
+  updateNamespaceAData: (data: string) => void;
+  subNamespace: SubNamespace;
+};
+
+describe('Standalone namespace stores', () => {
+  const subNamespace = createNamespace<SubNamespace>()(
+    'subNamespace',
+    (set) => ({
+      dataInSubNamespace: 'data',
+      updateSubNamespaceData: (data) => set({ dataInSubNamespace: data }),
+    })
+  );
+
+  const namespaceA = createNamespace<NamespaceA>()(
+    'namespaceA',
+    namespaced(
+      (state) => (set) => ({
+        dataInNamespaceA: 'data',
+        updateNamespaceAData: (data) => set({ dataInNamespaceA: data }),
+        ...state,
+      }),
+      { namespaces: [subNamespace] }
+    )
+  );
+
+  test('should create a store with the api of the namespace', () => {
+    const useNamespaceA = createNamespaceStore(namespaceA);
+
+    expect(useNamespaceA.getState().dataInNamespaceA).toBe('data');
+    expect(useNamespaceA.namespacePath).toEqual([namespaceA]);
+    expect(useNamespaceA.namespaces.subNamespace).toBeTruthy();
+    expect(useNamespaceA.getRawState()).toEqual({
+      namespaceA: useNamespaceA.getState(),
+    });
+
+    useNamespaceA.getState().updateNamespaceAData('updated');
+    expect(useNamespaceA.getState().dataInNamespaceA).toBe('updated');
+
+    expectType<string>(useNamespaceA.getState().dataInNamespaceA);
+    expectType<string>(useNamespaceA.getRawState().namespaceA.dataInNamespaceA);
+  });
+
+  test('should include the nested namespaces of the namespace', () => {
+    const useNamespaceA = createNamespaceStore(namespaceA);
+    const { subNamespace: useSubNamespace } = getNamespaceHooks(
+      useNamespaceA,
+      subNamespace
+    );
+
+    useSubNamespace.getState().updateSubNamespaceData('updated');
+
+    expect(useNamespaceA.getState().subNamespace.dataInSubNamespace).toBe(
+      'updated'
+    );
+    expect(useSubNamespace.namespacePath).toEqual([namespaceA, subNamespace]);
+  });
+
+  test('should override the initial state', () => {
+    const useNamespaceA = createNamespaceStore(namespaceA, {
+      initialState: { dataInNamespaceA: 'initial' },
+    });
+
+    useNamespaceA.setState({ dataInNamespaceA: 'updated' });
+    useNamespaceA.reset();
+
+    expect(useNamespaceA.getState().dataInNamespaceA).toBe('initial');
+    expect(typeof useNamespaceA.getState().updateNamespaceAData).toBe(
+      'function'
+    );
+  });
+
+  test('should create flattened namespaces with their parent state', () => {
+    const flatNamespace = createNamespace(
+      'flatNamespace',
+      () => ({
+        data: 'data',
+      }),
+      { flatten: true }
+    );
+
+    const useFlatNamespace = createNamespaceStore(flatNamespace, {
+      parentState: { parentData: 'parent' },
+    });
+
+    expect(useFlatNamespace.getState()).toEqual({ data: 'data' });
+    expect(useFlatNamespace.getRawState()).toEqual({
+      flatNamespace_data: 'data',
+    });
+  });
+
+  test('should keep the middleware of the namespace', () => {
+    const temporalNamespace = createNamespace(
+      'temporalNamespace',
+      temporal(() => ({
+        data: 'data',
+      }))
+    );
+
+    const useTemporalNamespace = createNamespaceStore(temporalNamespace);
+
+    useTemporalNamespace.setState({ data: 'updated' });
+    useTemporalNamespace.temporal.getState().undo();
+
+    expect(useTemporalNamespace.getState().data).toBe('data');
+  });
+
+  test('should be usable as a hook', () => {
+    const useNamespaceA = createNamespaceStore(namespaceA);
+
+    const Component = () => {
+      const data = useNamespaceA((state) => state.dataInNamespaceA);
+      return <p data-testid="data">{data}</p>;
+    };
+
+    render(<Component />);
+    expect(screen.getByTestId('data')).toHaveTextContent('data');
+
+    act(() => {
+      useNamespaceA.getState().updateNamespaceAData('updated');
+    });
+    expect(screen.getByTestId('data')).toHaveTextContent('updated');
+  });
+});
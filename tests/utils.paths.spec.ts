@@ -0,0 +1,156 @@
+import { expectType } from 'ts-expect';
+import { describe, expect, test } from 'vitest';
+import { create } from 'zustand';
+import { ExtractNamespace } from '../src/types';
+import {
+  createNamespace,
+  getIn,
+  getNamespaceByPath,
+  getNamespaceHooks,
+  namespaced,
+  setIn,
+} from '../src/utils';
+
+describe('Path based access', () => {
+  const subNamespace = createNamespace(
+    'subNamespace',
+    () => ({
+      dataInSubNamespace: 'data',
+      settings: {
+        theme: 'light',
+      },
+    }),
+    { flatten: true }
+  );
+
+  const namespaceA = createNamespace<
+    { dataInNamespaceA: string } & ExtractNamespace<typeof subNamespace>
+  >()(
+    'namespaceA',
+    namespaced(
+      (state) => () => ({
+        dataInNamespaceA: 'data',
+        ...state,
+      }),
+      { namespaces: [subNamespace] }
+    )
+  );
+
+  const namespaceB = createNamespace('namespaceB', () => ({
+    dataInNamespaceB: 'data',
+  }));
+
+  const createStore = () =>
+    create(
+      namespaced(
+        (state) => () => ({
+          mainData: 'data',
+          ...state,
+        }),
+        { namespaces: [namespaceA, namespaceB] }
+      )
+    );
+
+  test('should get the hook of a namespace from its path', () => {
+    const useStore = createStore();
+    const { namespaceA: useNamespaceA } = getNamespaceHooks(
+      useStore,
+      namespaceA
+    );
+    const { subNamespace: useSubNamespace } = getNamespaceHooks(
+      useNamespaceA,
+      subNamespace
+    );
+
+    const useSubNamespaceByPath = getNamespaceByPath(
+      useStore,
+      'namespaceA.subNamespace'
+    );
+
+    expect(useSubNamespaceByPath.getState()).toEqual(
+      useSubNamespace.getState()
+    );
+    expect(useSubNamespaceByPath.namespacePath).toEqual([
+      namespaceA,
+      subNamespace,
+    ]);
+
+    useSubNamespaceByPath.setState({ dataInSubNamespace: 'updated' });
+    expect(useSubNamespace.getState().dataInSubNamespace).toBe('updated');
+
+    expectType<string>(useSubNamespaceByPath.getState().dataInSubNamespace);
+    expectType<string>(
+      getNamespaceByPath(useNamespaceA, 'subNamespace').getState()
+        .dataInSubNamespace
+    );
+  });
+
+  test('should throw for a path that does not exist', () => {
+    const useStore = createStore();
+
+    const getMissingNamespace = () =>
+      // @ts-expect-error - namespaceB has no namespaces
+      getNamespaceByPath(useStore, 'namespaceB.subNamespace');
+
+    expect(getMissingNamespace).toThrow('Namespace not found');
+  });
+
+  test('should get values through nested and flattened namespaces', () => {
+    const useStore = createStore();
+
+    const data = getIn(useStore, [
+      'namespaceA',
+      'subNamespace',
+      'dataInSubNamespace',
+    ]);
+    const theme = getIn(useStore, [
+      'namespaceA',
+      'subNamespace',
+      'settings',
+      'theme',
+    ]);
+
+    expect(data).toBe('data');
+    expect(theme).toBe('light');
+    expect(getIn(useStore, ['mainData'])).toBe('data');
+    expect(getIn(useStore, ['namespaceB'])).toEqual({
+      dataInNamespaceB: 'data',
+    });
+
+    expectType<string>(data);
+    expectType<string>(theme);
+    // @ts-expect-error - the key does not exist in the namespace
+    getIn(useStore, ['namespaceA', 'missing']);
+  });
+
+  test('should set values through the namespaces', () => {
+    const useStore = createStore();
+    const settings = useStore.getState().namespaceA.subNamespace_settings;
+
+    setIn(
+      useStore,
+      ['namespaceA', 'subNamespace', 'settings', 'theme'],
+      'dark'
+    );
+    setIn(useStore, ['namespaceA', 'dataInNamespaceA'], 'updated');
+    setIn(useStore, ['mainData'], 'updated');
+
+    const state = useStore.getState();
+    expect(state.namespaceA.subNamespace_settings).toEqual({ theme: 'dark' });
+    expect(state.namespaceA.subNamespace_settings).not.toBe(settings);
+    expect(state.namespaceA.subNamespace_dataInSubNamespace).toBe('data');
+    expect(state.namespaceA.dataInNamespaceA).toBe('updated');
+    expect(state.mainData).toBe('updated');
+
+    // @ts-expect-error - the value does not match the type at the path
+    setIn(useStore, ['namespaceA', 'dataInNamespaceA'], 1);
+  });
+
+  test('should set the state of a namespace', () => {
+    const useStore = createStore();
+
+    setIn(useStore, ['namespaceB'], { dataInNamespaceB: 'updated' });
+
+    expect(useStore.getState().namespaceB.dataInNamespaceB).toBe('updated');
+  });
+});
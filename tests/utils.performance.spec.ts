@@ -0,0 +1,216 @@
+import { describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import {
+  createNamespace,
+  getPrefixedObject,
+  getUnprefixedObject,
+  namespaced,
+  separatorKeyCodec,
+} from '../src/utils';
+
+const createKeys = (count: number, prefix: string) =>
+  Object.fromEntries(
+    Array.from({ length: count }, (_, i) => [`${prefix}${i}`, i])
+  );
+
+describe('Structural sharing', () => {
+  const subNamespace = createNamespace('subNamespace', () => ({
+    dataInSubNamespace: 'data',
+  }));
+
+  const namespaceA = createNamespace(
+    'namespaceA',
+    namespaced(
+      (state) => () => ({
+        dataInNamespaceA: { nested: 'data' },
+        ...state,
+      }),
+      { namespaces: [subNamespace] }
+    )
+  );
+
+  const namespaceB = createNamespace('namespaceB', () => ({
+    dataInNamespaceB: { nested: 'data' },
+  }));
+
+  const flatNamespace = createNamespace(
+    'flatNamespace',
+    () => ({
+      dataInFlatNamespace: { nested: 'data' },
+    }),
+    { flatten: true }
+  );
+
+  const createStore = () =>
+    create(
+      namespaced(
+        (state) => () => ({
+          mainData: { nested: 'data' },
+          ...state,
+        }),
+        { namespaces: [namespaceA, namespaceB, flatNamespace] }
+      )
+    );
+
+  test('should only copy the objects along the path of a nested write', () => {
+    const useStore = createStore();
+    const before = useStore.getState();
+
+    useStore.namespaces.namespaceA.namespaces.subNamespace.setState({
+      dataInSubNamespace: 'updated',
+    });
+
+    const after = useStore.getState();
+    expect(after).not.toBe(before);
+    expect(after.namespaceA).not.toBe(before.namespaceA);
+    expect(after.namespaceA.subNamespace).not.toBe(
+      before.namespaceA.subNamespace
+    );
+    expect(after.namespaceA.subNamespace.dataInSubNamespace).toBe('updated');
+
+    expect(after.namespaceA.dataInNamespaceA).toBe(
+      before.namespaceA.dataInNamespaceA
+    );
+    expect(after.namespaceB).toBe(before.namespaceB);
+    expect(after.flatNamespace_dataInFlatNamespace).toBe(
+      before.flatNamespace_dataInFlatNamespace
+    );
+    expect(after.mainData).toBe(before.mainData);
+  });
+
+  test('should keep unchanged namespaces when the root is set', () => {
+    const useStore = createStore();
+    const before = useStore.getState();
+    const namespaceBListener = vi.fn();
+    const flatNamespaceListener = vi.fn();
+    useStore.namespaces.namespaceB.subscribe(namespaceBListener);
+    useStore.namespaces.flatNamespace.subscribe(flatNamespaceListener);
+
+    useStore.setState((state) => ({ ...state, mainData: { nested: 'new' } }));
+
+    const after = useStore.getState();
+    expect(after.mainData).toEqual({ nested: 'new' });
+    expect(after.namespaceA).toBe(before.namespaceA);
+    expect(after.namespaceB).toBe(before.namespaceB);
+    expect(namespaceBListener).not.toHaveBeenCalled();
+    expect(flatNamespaceListener).not.toHaveBeenCalled();
+  });
+});
+
+describe('Large stores', () => {
+  // counts the keys that are encoded and decoded, which the key maps only do once per key
+  const createCountingCodec = () => {
+    const codec = separatorKeyCodec('_');
+    return {
+      ...codec,
+      encode: vi.fn(codec.encode),
+      decode: vi.fn(codec.decode),
+    };
+  };
+
+  const subNamespace = createNamespace('subNamespace', () =>
+    createKeys(200, 'key')
+  );
+
+  const nestedNamespaces = Array.from({ length: 10 }, (_, i) =>
+    createNamespace(
+      `nested${i}`,
+      namespaced(
+        (state) => () => ({
+          ...createKeys(200, 'key'),
+          ...state,
+        }),
+        { namespaces: [subNamespace] }
+      )
+    )
+  );
+
+  // about 4000 keys in the root state
+  const createStore = (keyCodec: ReturnType<typeof createCountingCodec>) =>
+    create(
+      namespaced(
+        (state) => () => ({
+          ...createKeys(2000, 'root'),
+          ...state,
+        }),
+        {
+          namespaces: [
+            ...Array.from({ length: 10 }, (_, i) =>
+              createNamespace(`flat${i}`, () => createKeys(200, 'key'), {
+                flatten: true,
+                keyCodec,
+              })
+            ),
+            ...nestedNamespaces,
+          ],
+        }
+      )
+    );
+
+  test('should only set the keys along the path of nested writes', () => {
+    const useStore = createStore(createCountingCodec());
+    const useNested = useStore.namespaces.nested3;
+    const useSubNamespace = useNested.namespaces.subNamespace;
+    const before = useStore.getState() as any;
+    const setNested = vi.spyOn(useNested, 'setState');
+
+    for (let i = 0; i < 100; i++) {
+      useSubNamespace.setState({ key1: i });
+    }
+
+    expect(useSubNamespace.getState().key1).toBe(99);
+    // the parent is only set with the namespace's key, not with a copy of its whole state
+    expect(setNested).toHaveBeenCalledTimes(100);
+    for (const [state] of setNested.mock.calls) {
+      expect(Object.keys(state)).toEqual(['subNamespace']);
+    }
+    const after = useStore.getState() as any;
+    expect(after.nested2).toBe(before.nested2);
+    expect(after.nested3.key1).toBe(before.nested3.key1);
+  });
+
+  test('should not encode or decode keys again on flattened writes and reads', () => {
+    const keyCodec = createCountingCodec();
+    const useStore = createStore(keyCodec);
+    const useFlatNamespace = useStore.namespaces.flat3;
+    useFlatNamespace.setState({ key1: -1 });
+    keyCodec.encode.mockClear();
+    keyCodec.decode.mockClear();
+
+    for (let i = 0; i < 100; i++) {
+      useFlatNamespace.setState({ key1: i });
+      useFlatNamespace.getState();
+    }
+
+    expect((useStore.getState() as any).flat3_key1).toBe(99);
+    expect(keyCodec.encode).not.toHaveBeenCalled();
+    expect(keyCodec.decode).not.toHaveBeenCalled();
+  });
+
+  test('should prefix and unprefix each key once', () => {
+    const keyCodec = createCountingCodec();
+    const prefixAndUnprefix = (count: number) => {
+      const state = createKeys(count, `key${count}_`);
+      const prefixed = getPrefixedObject('namespace', state, keyCodec);
+      getUnprefixedObject('namespace', { ...prefixed, ...state }, keyCodec);
+    };
+
+    prefixAndUnprefix(1000);
+    expect(keyCodec.encode).toHaveBeenCalledTimes(1000);
+    expect(keyCodec.decode).toHaveBeenCalledTimes(2000);
+
+    // twice as many keys take twice as many calls
+    keyCodec.encode.mockClear();
+    keyCodec.decode.mockClear();
+    prefixAndUnprefix(2000);
+    expect(keyCodec.encode).toHaveBeenCalledTimes(2000);
+    expect(keyCodec.decode).toHaveBeenCalledTimes(4000);
+
+    // keys that have been seen are not encoded or decoded again
+    keyCodec.encode.mockClear();
+    keyCodec.decode.mockClear();
+    prefixAndUnprefix(2000);
+    expect(keyCodec.encode).not.toHaveBeenCalled();
+    expect(keyCodec.decode).not.toHaveBeenCalled();
+  });
+});
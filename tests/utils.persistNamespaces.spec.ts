@@ -0,0 +1,228 @@
+import { describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import { PersistStorage, StorageValue } from 'zustand/middleware';
+import { createNamespace, namespaced, persistNamespaces } from '../src/utils';
+
+function createMemoryStorage(
+  initialValues: Record<string, StorageValue<any>> = {}
+) {
+  const values = new Map(Object.entries(initialValues));
+  const storage: PersistStorage<any> = {
+    getItem: vi.fn((name: string) => values.get(name) ?? null),
+    setItem: vi.fn((name: string, value: StorageValue<any>) => {
+      values.set(name, value);
+    }),
+    removeItem: vi.fn((name: string) => {
+      values.delete(name);
+    }),
+  };
+  return { storage, values };
+}
+
+const subNamespace = createNamespace(
+  'subNamespace',
+  () => ({
+    dataInSubNamespace: 'data',
+  }),
+  { flatten: true, persist: {} }
+);
+
+const namespaceA = createNamespace(
+  'namespaceA',
+  namespaced(
+    (state) => () => ({
+      dataInNamespaceA: 'data',
+      ...state,
+    }),
+    { namespaces: [subNamespace] }
+  )
+);
+
+const namespaceB = createNamespace(
+  'namespaceB',
+  () => ({
+    dataInNamespaceB: 'data',
+  }),
+  { persist: { name: 'b', version: 1 } }
+);
+
+const createStore = (storage: PersistStorage<any>) =>
+  create(
+    persistNamespaces(
+      namespaced(
+        (state) => () => ({
+          mainData: 'data',
+          ...state,
+        }),
+        { namespaces: [namespaceA, namespaceB] }
+      ),
+      { name: 'app', storage }
+    )
+  );
+
+describe('persistNamespaces', () => {
+  test('should hydrate each persisted namespace from its own key', () => {
+    const { storage } = createMemoryStorage({
+      'app/namespaceA/subNamespace': {
+        state: { dataInSubNamespace: 'stored' },
+        version: 0,
+      },
+      'app/b': { state: { dataInNamespaceB: 'stored' }, version: 1 },
+    });
+    const useStore = createStore(storage);
+
+    // synchronous storage is loaded as the store is created
+    expect(useStore.persistNamespaces.hasHydrated()).toBe(true);
+    expect(useStore.getState()).toEqual({
+      mainData: 'data',
+      namespaceA: {
+        dataInNamespaceA: 'data',
+        subNamespace_dataInSubNamespace: 'stored',
+      },
+      namespaceB: { dataInNamespaceB: 'stored' },
+    });
+    expect(useStore.getInitialState().namespaceB).toEqual({
+      dataInNamespaceB: 'data',
+    });
+    // hydrating does not write the state back
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+
+  test('should wait for asynchronous storage', async () => {
+    const { storage } = createMemoryStorage({
+      'app/b': { state: { dataInNamespaceB: 'stored' }, version: 1 },
+    });
+    const getItem = storage.getItem;
+    storage.getItem = async (name) => getItem(name);
+    const useStore = createStore(storage);
+    const onFinishHydration = vi.fn();
+    useStore.persistNamespaces.onFinishHydration(onFinishHydration);
+
+    expect(useStore.persistNamespaces.hasHydrated()).toBe(false);
+    expect(useStore.getState().namespaceB.dataInNamespaceB).toBe('data');
+    await useStore.persistNamespaces.rehydrate();
+
+    expect(useStore.persistNamespaces.hasHydrated()).toBe(true);
+    expect(onFinishHydration).toHaveBeenCalled();
+    expect(useStore.getState().namespaceB.dataInNamespaceB).toBe('stored');
+  });
+
+  test('should only write namespaces that changed', async () => {
+    const { storage, values } = createMemoryStorage();
+    const useStore = createStore(storage);
+    await useStore.persistNamespaces.rehydrate();
+
+    useStore.setState({ mainData: 'updated' });
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    useStore.namespaces.namespaceB.setState({ dataInNamespaceB: 'updated' });
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+    expect(values.get('app/b')).toEqual({
+      state: { dataInNamespaceB: 'updated' },
+      version: 1,
+    });
+
+    useStore.namespaces.namespaceA.namespaces.subNamespace.setState({
+      dataInSubNamespace: 'updated',
+    });
+    expect(storage.setItem).toHaveBeenCalledTimes(2);
+    expect(values.get('app/namespaceA/subNamespace')).toEqual({
+      state: { dataInSubNamespace: 'updated' },
+      version: 0,
+    });
+  });
+
+  test('should use the storage of a namespace', async () => {
+    const { storage } = createMemoryStorage();
+    const { storage: namespaceStorage, values } = createMemoryStorage({
+      namespaceC: { state: { dataInNamespaceC: 'stored' }, version: 0 },
+    });
+    const namespaceC = createNamespace(
+      'namespaceC',
+      () => ({
+        dataInNamespaceC: 'data',
+      }),
+      { persist: { storage: namespaceStorage } }
+    );
+    const useStore = create(
+      persistNamespaces(namespaced({ namespaces: [namespaceC] }), { storage })
+    );
+    await useStore.persistNamespaces.rehydrate();
+
+    expect(useStore.getState().namespaceC.dataInNamespaceC).toBe('stored');
+
+    useStore.namespaces.namespaceC.setState({ dataInNamespaceC: 'updated' });
+    expect(values.get('namespaceC')?.state).toEqual({
+      dataInNamespaceC: 'updated',
+    });
+    expect(storage.setItem).not.toHaveBeenCalled();
+  });
+
+  test('should migrate stored state from older versions', async () => {
+    const { storage, values } = createMemoryStorage({
+      namespaceC: { state: { oldData: 'stored' }, version: 1 },
+    });
+    const namespaceC = createNamespace(
+      'namespaceC',
+      () => ({
+        dataInNamespaceC: 'data',
+      }),
+      {
+        persist: {
+          version: 2,
+          migrate: (state: any) => ({ dataInNamespaceC: state.oldData }),
+        },
+      }
+    );
+    const useStore = create(
+      persistNamespaces(namespaced({ namespaces: [namespaceC] }), { storage })
+    );
+    await useStore.persistNamespaces.rehydrate();
+
+    expect(useStore.getState().namespaceC).toEqual({
+      dataInNamespaceC: 'stored',
+    });
+    // the migrated state is written back with the new version
+    expect(values.get('namespaceC')).toEqual({
+      state: { dataInNamespaceC: 'stored' },
+      version: 2,
+    });
+  });
+
+  test('should report stored state that cannot be migrated', () => {
+    const { storage } = createMemoryStorage({
+      'app/b': { state: { dataInNamespaceB: 'stored' }, version: 0 },
+    });
+    const onError = vi.fn();
+    const useStore = create(
+      persistNamespaces(namespaced({ namespaces: [namespaceB] }), {
+        name: 'app',
+        storage,
+        onError,
+      })
+    );
+
+    expect(useStore.getState().namespaceB.dataInNamespaceB).toBe('data');
+    expect(useStore.persistNamespaces.hasHydrated()).toBe(true);
+    expect(onError).toHaveBeenCalledWith(
+      new Error(
+        "State loaded from storage for app/b couldn't be migrated since no migrate function was provided"
+      )
+    );
+  });
+
+  test('should remove every persisted namespace from storage', async () => {
+    const { storage, values } = createMemoryStorage({
+      'app/b': { state: { dataInNamespaceB: 'stored' }, version: 1 },
+    });
+    const useStore = createStore(storage);
+    await useStore.persistNamespaces.rehydrate();
+
+    useStore.persistNamespaces.clearStorage();
+
+    expect(values.size).toBe(0);
+    expect(storage.removeItem).toHaveBeenCalledWith(
+      'app/namespaceA/subNamespace'
+    );
+  });
+});
@@ -0,0 +1,254 @@
+import { expectType, TypeEqual } from 'ts-expect';
+import { describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import { PersistStorage, StorageValue } from 'zustand/middleware';
+import { ExtractNamespace } from '../src/types';
+import {
+  createNamespace,
+  dehydrate,
+  fromNamespace,
+  getNamespaceHooks,
+  namespaced,
+  persistNamespaces,
+  resetNamespaces,
+  toNamespace,
+} from '../src/utils';
+
+type Request = { id: number };
+
+const requestNamespace = createNamespace(
+  'requestNamespace',
+  () => ({
+    data: 'data',
+    request: null as Request | null,
+    cache: {} as Record<string, string>,
+  }),
+  { private: ['request'], ephemeral: ['cache'], persist: {} }
+);
+
+const flatNamespace = createNamespace(
+  'flatNamespace',
+  () => ({
+    dataInFlatNamespace: 'data',
+    request: null as Request | null,
+  }),
+  { flatten: true, private: ['request'] }
+);
+
+const subNamespace = createNamespace(
+  'subNamespace',
+  () => ({
+    dataInSubNamespace: 'data',
+    cache: 'cache',
+  }),
+  { ephemeral: ['cache'] }
+);
+
+const parentNamespace = createNamespace(
+  'parentNamespace',
+  namespaced(
+    (state) => () => ({
+      dataInParentNamespace: 'data',
+      ...state,
+    }),
+    { namespaces: [subNamespace] }
+  ),
+  { persist: {} }
+);
+
+function createMemoryStorage() {
+  const values = new Map<string, StorageValue<any>>();
+  const storage: PersistStorage<any> = {
+    getItem: (name: string) => values.get(name) ?? null,
+    setItem: (name: string, value: StorageValue<any>) => {
+      values.set(name, value);
+    },
+    removeItem: (name: string) => {
+      values.delete(name);
+    },
+  };
+  return { storage, values };
+}
+
+const createStore = (storage = createMemoryStorage().storage) =>
+  create(
+    persistNamespaces(
+      namespaced(
+        (state) => () => ({
+          mainData: 'data',
+          ...state,
+        }),
+        { namespaces: [requestNamespace, flatNamespace, parentNamespace] }
+      ),
+      { storage }
+    )
+  );
+
+describe('Private keys', () => {
+  test('should keep private keys out of the parent state', () => {
+    const useStore = createStore();
+    const { requestNamespace: useRequestNamespace } = getNamespaceHooks(
+      useStore,
+      requestNamespace
+    );
+
+    useRequestNamespace.setState({ request: { id: 1 } });
+
+    expect(useRequestNamespace.getState().request).toEqual({ id: 1 });
+    expect(useStore.getState().requestNamespace).toEqual({
+      data: 'data',
+      cache: {},
+    });
+    expect(useRequestNamespace.getRawState()).toEqual({
+      requestNamespace: { data: 'data' },
+    });
+
+    // @ts-expect-error - request is private to the namespace
+    expect(useStore.getState().requestNamespace.request).toBeUndefined();
+  });
+
+  test('should keep private keys of flattened namespaces out of the parent state', () => {
+    const useStore = createStore();
+
+    useStore.namespaces.flatNamespace.setState({ request: { id: 1 } });
+
+    expect(useStore.namespaces.flatNamespace.getState()).toEqual({
+      dataInFlatNamespace: 'data',
+      request: { id: 1 },
+    });
+    expect(useStore.getState()).not.toHaveProperty('flatNamespace_request');
+  });
+
+  test('should notify subscribers of the namespace when private keys change', () => {
+    const useStore = createStore();
+    const useRequestNamespace = useStore.namespaces.requestNamespace;
+    const listener = vi.fn();
+    useRequestNamespace.subscribe(listener);
+
+    useRequestNamespace.setState({ request: { id: 1 } });
+    useStore.setState({ mainData: 'updated' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].request).toEqual({ id: 1 });
+    // the state is the same object until the namespace changes
+    expect(useRequestNamespace.getState()).toBe(useRequestNamespace.getState());
+  });
+
+  test('should keep private keys when the parent sets the namespace', () => {
+    const useStore = createStore();
+    useStore.namespaces.requestNamespace.setState({ request: { id: 1 } });
+
+    useStore.setState({ requestNamespace: { data: 'updated' } });
+
+    expect(useStore.namespaces.requestNamespace.getState()).toEqual({
+      data: 'updated',
+      request: { id: 1 },
+      cache: {},
+    });
+  });
+
+  test('should reset private keys to their initial state', () => {
+    const useStore = createStore();
+    useStore.namespaces.requestNamespace.setState({ request: { id: 1 } });
+    useStore.namespaces.flatNamespace.setState({ request: { id: 2 } });
+
+    useStore.namespaces.requestNamespace.reset();
+    resetNamespaces(useStore, flatNamespace);
+
+    expect(useStore.namespaces.requestNamespace.getState().request).toBe(null);
+    expect(useStore.namespaces.flatNamespace.getState().request).toBe(null);
+  });
+});
+
+describe('Ephemeral keys', () => {
+  test('should keep ephemeral keys in the parent state', () => {
+    const useStore = createStore();
+
+    useStore.namespaces.requestNamespace.setState({ cache: { key: 'value' } });
+
+    expect(useStore.getState().requestNamespace).toEqual({
+      data: 'data',
+      cache: { key: 'value' },
+    });
+    expect(useStore.namespaces.requestNamespace.getState().cache).toEqual({
+      key: 'value',
+    });
+  });
+
+  test('should leave ephemeral keys out of the namespace helpers', () => {
+    const useStore = createStore();
+
+    expect(toNamespace(useStore.getState(), requestNamespace)).toEqual({
+      data: 'data',
+    });
+    expect(
+      fromNamespace(
+        { data: 'data', request: null, cache: {} },
+        requestNamespace
+      )
+    ).toEqual({ requestNamespace: { data: 'data' } });
+    expect(
+      toNamespace(useStore.getState(), parentNamespace, subNamespace)
+    ).toEqual({ dataInSubNamespace: 'data' });
+  });
+
+  test('should leave private and ephemeral keys out of persistence', async () => {
+    const { storage, values } = createMemoryStorage();
+    const useStore = createStore(storage);
+    await useStore.persistNamespaces.rehydrate();
+
+    useStore.namespaces.requestNamespace.setState({
+      data: 'updated',
+      request: { id: 1 },
+      cache: { key: 'value' },
+    });
+    useStore.namespaces.parentNamespace.namespaces.subNamespace.setState({
+      dataInSubNamespace: 'updated',
+      cache: 'updated',
+    });
+
+    expect(values.get('requestNamespace')?.state).toEqual({ data: 'updated' });
+    expect(values.get('parentNamespace')?.state).toEqual({
+      dataInParentNamespace: 'data',
+      subNamespace: { dataInSubNamespace: 'updated' },
+    });
+  });
+
+  test('should leave private and ephemeral keys out of snapshots', () => {
+    const useStore = createStore();
+    useStore.namespaces.requestNamespace.setState({ request: { id: 1 } });
+
+    expect(JSON.parse(dehydrate(useStore))).toEqual({
+      requestNamespace: { data: 'data' },
+      flatNamespace_dataInFlatNamespace: 'data',
+      parentNamespace: {
+        dataInParentNamespace: 'data',
+        subNamespace: { dataInSubNamespace: 'data' },
+      },
+    });
+  });
+
+  test('should omit private and ephemeral keys in the extracted namespace types', () => {
+    const useStore = createStore();
+
+    expect(useStore.namespaces.requestNamespace.getState().request).toBe(null);
+    expectType<
+      TypeEqual<
+        keyof ExtractNamespace<typeof requestNamespace>['requestNamespace'],
+        'data'
+      >
+    >(true);
+    expectType<
+      TypeEqual<
+        keyof ExtractNamespace<typeof flatNamespace>,
+        'flatNamespace_dataInFlatNamespace'
+      >
+    >(true);
+    expectType<
+      TypeEqual<
+        keyof ReturnType<typeof useStore.namespaces.requestNamespace.getState>,
+        'data' | 'request' | 'cache'
+      >
+    >(true);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import {
+  addNamespace,
+  createNamespace,
+  getNamespaceHooks,
+  namespaced,
+  resetNamespaces,
+} from '../src/utils';
+import { createStore, namespaceA, namespaceB, subNamespace } from './fixtures';
+
+describe('Resetting namespaces', () => {
+  test('should reset a nested namespace and its subtree', () => {
+    const useStore = createStore();
+    const { namespaceA: useNamespaceA } = getNamespaceHooks(
+      useStore,
+      namespaceA
+    );
+    const { subNamespace: useSubNamespace } = getNamespaceHooks(
+      useNamespaceA,
+      subNamespace
+    );
+
+    useNamespaceA.setState({ dataInNamespaceA: 'updated' });
+    useSubNamespace.setState({ dataInSubNamespace: 'updated' });
+    useStore.setState({ mainData: 'updated' });
+
+    useNamespaceA.reset();
+
+    expect(useStore.getState()).toEqual({
+      mainData: 'updated',
+      namespaceA: {
+        dataInNamespaceA: 'data',
+        subNamespace_dataInSubNamespace: 'data',
+      },
+      namespaceB_dataInNamespaceB: 'data',
+    });
+  });
+
+  test('should reset a flattened namespace', () => {
+    const useStore = createStore();
+    const { namespaceA: useNamespaceA } = getNamespaceHooks(
+      useStore,
+      namespaceA
+    );
+    const { subNamespace: useSubNamespace } = getNamespaceHooks(
+      useNamespaceA,
+      subNamespace
+    );
+
+    useNamespaceA.setState({ dataInNamespaceA: 'updated' });
+    useSubNamespace.setState({ dataInSubNamespace: 'updated' });
+    useStore.namespaces.namespaceB.setState({ dataInNamespaceB: 'updated' });
+
+    useSubNamespace.reset();
+    useStore.namespaces.namespaceB.reset();
+
+    expect(useStore.getState()).toEqual({
+      mainData: 'data',
+      namespaceA: {
+        dataInNamespaceA: 'updated',
+        subNamespace_dataInSubNamespace: 'data',
+      },
+      namespaceB_dataInNamespaceB: 'data',
+    });
+  });
+
+  test('should reset several namespaces with one update', () => {
+    const useStore = createStore();
+    useStore.setState({
+      mainData: 'updated',
+      namespaceA: {
+        dataInNamespaceA: 'updated',
+        subNamespace_dataInSubNamespace: 'updated',
+      },
+      namespaceB_dataInNamespaceB: 'updated',
+    });
+
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    resetNamespaces(useStore, namespaceA, namespaceB);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(useStore.getState()).toEqual({
+      mainData: 'updated',
+      namespaceA: {
+        dataInNamespaceA: 'data',
+        subNamespace_dataInSubNamespace: 'data',
+      },
+      namespaceB_dataInNamespaceB: 'data',
+    });
+  });
+
+  test('should reset every namespace when none are provided', () => {
+    const useStore = createStore();
+    const { namespaceA: useNamespaceA } = getNamespaceHooks(
+      useStore,
+      namespaceA
+    );
+    useNamespaceA.setState({ dataInNamespaceA: 'updated' });
+    useStore.namespaces.namespaceB.setState({ dataInNamespaceB: 'updated' });
+
+    resetNamespaces(useStore);
+
+    expect(useStore.getState()).toEqual(useStore.getInitialState());
+  });
+
+  test('should remove keys added after creation when resetting namespaces', () => {
+    const useStore = createStore();
+    useStore.namespaces.namespaceA.setState({ extra: 'added' } as any);
+    useStore.namespaces.namespaceB.setState({ extra: 'added' } as any);
+
+    const listener = vi.fn();
+    useStore.subscribe(listener);
+
+    resetNamespaces(useStore);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(useStore.getState()).toEqual(useStore.getInitialState());
+  });
+
+  test('should replace the state of deep merged namespaces', () => {
+    const namespace = createNamespace(
+      'namespace',
+      () => ({
+        items: {} as Record<string, number>,
+      }),
+      { merge: 'deep' }
+    );
+    const useStore = create(namespaced({ namespaces: [namespace] }));
+    useStore.namespaces.namespace.setState({ items: { x: 1 } });
+
+    resetNamespaces(useStore);
+
+    expect(useStore.getState()).toEqual({ namespace: { items: {} } });
+  });
+
+  test('should reset namespaces that were added to the namespace', () => {
+    const namespace = createNamespace(
+      'namespace',
+      namespaced(() => () => ({ y: 1 }), { namespaces: [] })
+    );
+    const useStore = create(namespaced({ namespaces: [namespace] }));
+    const { namespace: useNamespace } = getNamespaceHooks(useStore, namespace);
+    const sub = createNamespace('sub', () => ({ z: 1 }), { flatten: true });
+    const useWiderNamespace = addNamespace(useNamespace, sub);
+
+    useWiderNamespace.setState({ y: 2 });
+    useWiderNamespace.namespaces.sub.setState({ z: 2 });
+    useWiderNamespace.reset();
+
+    expect(useStore.getState()).toEqual({ namespace: { y: 1, sub_z: 1 } });
+    expect(useWiderNamespace.namespaces.sub.getState()).toEqual({ z: 1 });
+  });
+});
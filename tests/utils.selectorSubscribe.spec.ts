@@ -0,0 +1,175 @@
+import { expectType } from 'ts-expect';
+import { describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import { shallow } from 'zustand/shallow';
+import { createNamespace, getNamespaceHooks, namespaced } from '../src/utils';
+
+const subNamespace = createNamespace('subNamespace', () => ({
+  dataInSubNamespace: 'data',
+}));
+
+const namespaceA = createNamespace(
+  'namespaceA',
+  namespaced(
+    (state) => () => ({
+      dataInNamespaceA: 'data',
+      countInNamespaceA: 0,
+      ...state,
+    }),
+    { namespaces: [subNamespace] }
+  )
+);
+
+const flatNamespace = createNamespace(
+  'flatNamespace',
+  () => ({
+    dataInFlatNamespace: 'data',
+    countInFlatNamespace: 0,
+  }),
+  { flatten: true }
+);
+
+const createStore = () =>
+  create(
+    namespaced(
+      (state) => () => ({
+        mainData: 'data',
+        ...state,
+      }),
+      { namespaces: [namespaceA, flatNamespace] }
+    )
+  );
+
+describe('Selector subscribe', () => {
+  test('should only notify when the selected state changes', () => {
+    const useStore = createStore();
+    const listener = vi.fn();
+    useStore.namespaces.namespaceA.subscribe(
+      (state) => state.countInNamespaceA,
+      listener
+    );
+
+    useStore.namespaces.namespaceA.setState({ dataInNamespaceA: 'updated' });
+    useStore.namespaces.namespaceA.setState({ countInNamespaceA: 1 });
+    useStore.setState({ mainData: 'updated' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1, 0);
+  });
+
+  test('should compare the selected state with the equality function', () => {
+    const useStore = createStore();
+    const listener = vi.fn();
+    useStore.namespaces.namespaceA.subscribe(
+      (state) => ({ count: state.countInNamespaceA }),
+      listener,
+      { equalityFn: shallow }
+    );
+
+    useStore.namespaces.namespaceA.setState({ dataInNamespaceA: 'updated' });
+    useStore.namespaces.namespaceA.setState({ countInNamespaceA: 1 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ count: 1 }, { count: 0 });
+  });
+
+  test('should call the listener right away with fireImmediately', () => {
+    const useStore = createStore();
+    const listener = vi.fn();
+
+    useStore.namespaces.namespaceA.subscribe(
+      (state) => state.dataInNamespaceA,
+      listener,
+      { fireImmediately: true }
+    );
+
+    expect(listener).toHaveBeenCalledWith('data', 'data');
+  });
+
+  test('should subscribe to selected state of flattened and nested namespaces', () => {
+    const useStore = createStore();
+    const flatListener = vi.fn();
+    const subListener = vi.fn();
+    useStore.namespaces.flatNamespace.subscribe(
+      (state) => state.countInFlatNamespace,
+      flatListener
+    );
+    useStore.namespaces.namespaceA.namespaces.subNamespace.subscribe(
+      (state) => state.dataInSubNamespace,
+      subListener
+    );
+
+    useStore.setState({ flatNamespace_countInFlatNamespace: 1 });
+    useStore.namespaces.flatNamespace.setState({
+      dataInFlatNamespace: 'updated',
+    });
+    useStore.namespaces.namespaceA.namespaces.subNamespace.setState({
+      dataInSubNamespace: 'updated',
+    });
+
+    expect(flatListener).toHaveBeenCalledTimes(1);
+    expect(flatListener).toHaveBeenCalledWith(1, 0);
+    expect(subListener).toHaveBeenCalledWith('updated', 'data');
+  });
+
+  test('should subscribe to selected state through namespace hooks', () => {
+    const useStore = createStore();
+    const { namespaceA: useNamespaceA } = getNamespaceHooks(
+      useStore,
+      namespaceA
+    );
+    const listener = vi.fn();
+    const unsubscribe = useNamespaceA.subscribe(
+      (state) => state.countInNamespaceA,
+      listener
+    );
+
+    useNamespaceA.setState({ countInNamespaceA: 1 });
+    unsubscribe();
+    useNamespaceA.setState({ countInNamespaceA: 2 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1, 0);
+  });
+
+  test('should keep whole state listeners working', () => {
+    const useStore = createStore();
+    const listener = vi.fn();
+    useStore.namespaces.flatNamespace.subscribe(listener);
+
+    useStore.namespaces.flatNamespace.setState({ countInFlatNamespace: 1 });
+
+    expect(listener).toHaveBeenCalledWith(
+      { dataInFlatNamespace: 'data', countInFlatNamespace: 1 },
+      { dataInFlatNamespace: 'data', countInFlatNamespace: 0 }
+    );
+  });
+
+  test('should type the selected state', () => {
+    const useStore = createStore();
+    const { namespaceA: useNamespaceA } = getNamespaceHooks(
+      useStore,
+      namespaceA
+    );
+
+    const unsubscribe = useStore.namespaces.flatNamespace.subscribe(
+      (state) => state.countInFlatNamespace,
+      (count, previousCount) => {
+        expectType<number>(count);
+        expectType<number>(previousCount);
+      }
+    );
+    useNamespaceA.subscribe(
+      (state) => state.dataInNamespaceA,
+      (data) => expectType<string>(data),
+      {
+        equalityFn: (a, b) => {
+          expectType<string>(a);
+          return a === b;
+        },
+      }
+    );
+
+    expect(typeof unsubscribe).toBe('function');
+  });
+});
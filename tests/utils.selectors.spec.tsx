@@ -0,0 +1,123 @@
+import '@testing-library/jest-dom';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import React from 'react';
+import { expectType } from 'ts-expect';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import {
+  createNamespace,
+  createSelectors,
+  getNamespaceHooks,
+  namespaced,
+} from '../src/utils';
+
+type NamespaceA = {
+  dataInNamespaceA: string;
+  countInNamespaceA: number;
+  increment: () => void;
+};
+
+const namespaceA = createNamespace<NamespaceA>()('namespaceA', (set) => ({
+  dataInNamespaceA: 'data',
+  countInNamespaceA: 0,
+  increment: () =>
+    set((state) => ({ countInNamespaceA: state.countInNamespaceA + 1 })),
+}));
+
+const flatNamespace = createNamespace(
+  'flatNamespace',
+  () => ({
+    dataInFlatNamespace: 'data',
+  }),
+  { flatten: true }
+);
+
+const createStore = () =>
+  create(
+    namespaced(
+      (state) => () => ({
+        mainData: 'data',
+        ...state,
+      }),
+      { namespaces: [namespaceA, flatNamespace] }
+    )
+  );
+
+afterEach(cleanup);
+
+describe('Selector hooks', () => {
+  test('should add a selector hook for each key of the namespace', () => {
+    const useStore = createStore();
+    const hooks = getNamespaceHooks(useStore, namespaceA);
+    const useNamespaceA = createSelectors(hooks.namespaceA);
+    const renders = vi.fn();
+
+    const Counter = () => {
+      const count = useNamespaceA.use.countInNamespaceA();
+      const increment = useNamespaceA.use.increment();
+      renders();
+      return (
+        <button data-testid="count" onClick={increment}>
+          {count}
+        </button>
+      );
+    };
+
+    render(<Counter />);
+    expect(screen.getByTestId('count')).toHaveTextContent('0');
+
+    act(() => {
+      screen.getByTestId('count').click();
+    });
+    expect(screen.getByTestId('count')).toHaveTextContent('1');
+
+    act(() => {
+      useNamespaceA.setState({ dataInNamespaceA: 'updated' });
+    });
+    expect(renders).toHaveBeenCalledTimes(2);
+    expect(Object.keys(useNamespaceA.use)).toEqual([
+      'dataInNamespaceA',
+      'countInNamespaceA',
+      'increment',
+    ]);
+  });
+
+  test('should use the unprefixed keys of flattened namespaces', () => {
+    const useStore = createStore();
+    const useFlatNamespace = createSelectors(
+      getNamespaceHooks(useStore, flatNamespace).flatNamespace
+    );
+
+    const Data = () => (
+      <p data-testid="data">{useFlatNamespace.use.dataInFlatNamespace()}</p>
+    );
+
+    render(<Data />);
+    act(() => {
+      useStore.setState({ flatNamespace_dataInFlatNamespace: 'updated' });
+    });
+    expect(screen.getByTestId('data')).toHaveTextContent('updated');
+    expect(useFlatNamespace.use).not.toHaveProperty(
+      'flatNamespace_dataInFlatNamespace'
+    );
+  });
+
+  test('should type the selector hooks from the state', () => {
+    const useStore = createSelectors(createStore());
+    const { namespaceA: useNamespaceA, flatNamespace: useFlatNamespace } =
+      getNamespaceHooks(useStore, namespaceA, flatNamespace);
+    const useNamespaceASelectors = createSelectors(useNamespaceA);
+    const useFlatNamespaceSelectors = createSelectors(useFlatNamespace);
+
+    expectType<() => number>(useNamespaceASelectors.use.countInNamespaceA);
+    expectType<() => () => void>(useNamespaceASelectors.use.increment);
+    expectType<() => string>(useFlatNamespaceSelectors.use.dataInFlatNamespace);
+    expectType<() => string>(useStore.use.flatNamespace_dataInFlatNamespace);
+    expect(
+      // @ts-expect-error - flattened namespaces are selected by their own keys
+      useFlatNamespaceSelectors.use.flatNamespace_dataInFlatNamespace
+    ).toBeUndefined();
+    // the hook keeps the api of the namespace
+    expect(useNamespaceASelectors.namespacePath).toEqual([namespaceA]);
+  });
+});
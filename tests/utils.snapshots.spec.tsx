@@ -0,0 +1,111 @@
+import '@testing-library/jest-dom';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import React from 'react';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import { createNamespace, getNamespaceHooks, namespaced } from '../src/utils';
+
+const namespaceA = createNamespace(
+  'namespaceA',
+  () => ({
+    dataInNamespaceA: 'data',
+  }),
+  { flatten: true }
+);
+
+const namespaceB = createNamespace(
+  'namespaceB',
+  () => ({
+    dataInNamespaceB: 'data',
+  }),
+  { flatten: true }
+);
+
+const createStore = () =>
+  create(
+    namespaced(
+      (state) => () => ({
+        mainData: 'data',
+        ...state,
+      }),
+      { namespaces: [namespaceA, namespaceB] }
+    )
+  );
+
+afterEach(cleanup);
+
+describe('Flattened namespace snapshots', () => {
+  test('should return the same state while the namespace keys are unchanged', () => {
+    const useStore = createStore();
+    const api = useStore.namespaces.namespaceA;
+
+    const state = api.getState();
+    expect(api.getState()).toBe(state);
+
+    useStore.setState({ mainData: 'updated' });
+    useStore.namespaces.namespaceB.setState({ dataInNamespaceB: 'updated' });
+    expect(api.getState()).toBe(state);
+
+    // setting the same value does not change the state either
+    api.setState({ dataInNamespaceA: 'data' });
+    expect(api.getState()).toBe(state);
+
+    api.setState({ dataInNamespaceA: 'updated' });
+    expect(api.getState()).not.toBe(state);
+    expect(api.getState()).toEqual({ dataInNamespaceA: 'updated' });
+  });
+
+  test('should return the same initial state', () => {
+    const useStore = createStore();
+    const api = useStore.namespaces.namespaceA;
+
+    expect(api.getInitialState()).toBe(api.getInitialState());
+  });
+
+  test('should only notify subscribers when the namespace state changes', () => {
+    const useStore = createStore();
+    const api = useStore.namespaces.namespaceA;
+    const listener = vi.fn();
+    api.subscribe(listener);
+
+    useStore.setState({ mainData: 'updated' });
+    useStore.namespaces.namespaceB.setState({ dataInNamespaceB: 'updated' });
+    expect(listener).not.toHaveBeenCalled();
+
+    const previousState = api.getState();
+    api.setState({ dataInNamespaceA: 'updated' });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(api.getState(), previousState);
+  });
+
+  test('should not re-render components for changes to other namespaces', () => {
+    const useStore = createStore();
+    const { namespaceA: useNamespaceA } = getNamespaceHooks(
+      useStore,
+      namespaceA
+    );
+    let renders = 0;
+
+    const NamespaceA = () => {
+      const state = useNamespaceA((state) => state);
+      renders++;
+      return <p data-testid="namespaceA">{state.dataInNamespaceA}</p>;
+    };
+
+    render(<NamespaceA />);
+    const initialRenders = renders;
+
+    act(() => {
+      useStore.namespaces.namespaceB.setState({
+        dataInNamespaceB: 'updated',
+      });
+    });
+    expect(renders).toBe(initialRenders);
+
+    act(() => {
+      useNamespaceA.setState({ dataInNamespaceA: 'updated' });
+    });
+    expect(renders).toBe(initialRenders + 1);
+    expect(screen.getByTestId('namespaceA')).toHaveTextContent('updated');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, test } from 'vitest';
+import { create } from 'zustand';
+import {
+  allowNamespaceWrites,
+  createNamespace,
+  namespaced,
+  resetNamespaces,
+} from '../src/utils';
+
+describe('Strict mode', () => {
+  const subNamespace = createNamespace('subNamespace', () => ({
+    dataInSubNamespace: 'data',
+  }));
+
+  const namespaceA = createNamespace(
+    'namespaceA',
+    namespaced(
+      (state) => (set) => ({
+        dataInNamespaceA: 'data',
+        ...state,
+        updateSubNamespace: () =>
+          set({ subNamespace: { dataInSubNamespace: 'updated' } }),
+      }),
+      { namespaces: [subNamespace], strict: true }
+    )
+  );
+
+  const flatNamespace = createNamespace(
+    'flat',
+    () => ({
+      dataInFlat: 'data',
+    }),
+    { flatten: true }
+  );
+
+  const createStore = () =>
+    create(
+      namespaced(
+        (state) => (set) => ({
+          mainData: 'data',
+          ...state,
+          updateNamespaceA: () =>
+            set({
+              namespaceA: { ...state.namespaceA, dataInNamespaceA: 'updated' },
+            }),
+        }),
+        {
+          namespaces: [namespaceA, flatNamespace],
+          strict: true,
+        }
+      )
+    );
+
+  test('should allow namespaces to write their own state', () => {
+    const useStore = createStore();
+
+    useStore.namespaces.namespaceA.setState({ dataInNamespaceA: 'updated' });
+    useStore.namespaces.namespaceA.namespaces.subNamespace.setState({
+      dataInSubNamespace: 'updated',
+    });
+    useStore.namespaces.flat.setState({ dataInFlat: 'updated' });
+    useStore.setState({ mainData: 'updated' });
+    useStore.setState((state) => ({ ...state, mainData: 'updated again' }));
+
+    expect(useStore.getState()).toMatchObject({
+      mainData: 'updated again',
+      namespaceA: {
+        dataInNamespaceA: 'updated',
+        subNamespace: { dataInSubNamespace: 'updated' },
+      },
+      flat_dataInFlat: 'updated',
+    });
+  });
+
+  test('should throw when the root writes to a namespace', () => {
+    const useStore = createStore();
+
+    expect(() => useStore.getState().updateNamespaceA()).toThrow(
+      'Cannot write to namespace namespaceA from its parent outside of allowNamespaceWrites'
+    );
+    expect(() => useStore.setState({ flat_dataInFlat: 'updated' })).toThrow(
+      'Cannot write to namespace flat from its parent'
+    );
+    expect(useStore.getState().namespaceA.dataInNamespaceA).toBe('data');
+
+    // the store keeps working after a write is rejected
+    useStore.namespaces.namespaceA.setState({ dataInNamespaceA: 'updated' });
+    expect(useStore.getState().namespaceA.dataInNamespaceA).toBe('updated');
+  });
+
+  test('should report the path of a nested namespace', () => {
+    const useStore = createStore();
+
+    expect(() =>
+      useStore.namespaces.namespaceA.getState().updateSubNamespace()
+    ).toThrow(
+      'Cannot write to namespace namespaceA/subNamespace from its parent'
+    );
+  });
+
+  test('should allow the root to write to a namespace inside allowNamespaceWrites', () => {
+    const useStore = createStore();
+
+    allowNamespaceWrites(() => useStore.getState().updateNamespaceA());
+
+    expect(useStore.getState().namespaceA.dataInNamespaceA).toBe('updated');
+  });
+
+  test('should reset namespaces of strict stores', () => {
+    const useStore = createStore();
+    useStore.namespaces.namespaceA.setState({ dataInNamespaceA: 'updated' });
+    useStore.namespaces.namespaceA.namespaces.subNamespace.setState({
+      dataInSubNamespace: 'updated',
+    });
+
+    useStore.namespaces.namespaceA.reset();
+    expect(useStore.getState().namespaceA.subNamespace).toEqual({
+      dataInSubNamespace: 'data',
+    });
+
+    useStore.namespaces.flat.setState({ dataInFlat: 'updated' });
+    resetNamespaces(useStore);
+    expect(useStore.getState().flat_dataInFlat).toBe('data');
+  });
+
+  test('should not check stores that are not strict', () => {
+    const useStore = create(namespaced({ namespaces: [flatNamespace] }));
+
+    useStore.setState({ flat_dataInFlat: 'updated' });
+
+    expect(useStore.namespaces.flat.getState().dataInFlat).toBe('updated');
+  });
+});
@@ -0,0 +1,212 @@
+import '@testing-library/jest-dom';
+import { act, cleanup, render, screen } from '@testing-library/react';
+import React from 'react';
+import { expectType } from 'ts-expect';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { create } from 'zustand';
+import { shallow } from 'zustand/shallow';
+import {
+  createNamespace,
+  namespaced,
+  subscribeNamespaces,
+  useNamespaces,
+} from '../src/utils';
+
+type User = {
+  name: string;
+};
+
+type Settings = {
+  theme: string;
+};
+
+const subNamespace = createNamespace('subNamespace', () => ({
+  dataInSubNamespace: 'data',
+}));
+
+const user = createNamespace(
+  'user',
+  namespaced(
+    (state) => () => ({
+      name: 'Ada' as string,
+      ...state,
+    }),
+    { namespaces: [subNamespace] }
+  )
+);
+
+const settings = createNamespace<Settings>()(
+  'settings',
+  () => ({
+    theme: 'light',
+  }),
+  { flatten: true }
+);
+
+const createStore = () =>
+  create(
+    namespaced(
+      (state) => () => ({
+        mainData: 'data',
+        ...state,
+      }),
+      { namespaces: [user, settings] }
+    )
+  );
+
+afterEach(cleanup);
+
+describe('useNamespaces', () => {
+  test('should select from nested and flattened namespaces', () => {
+    const useStore = createStore();
+    const renders = vi.fn();
+
+    const Profile = () => {
+      const label = useNamespaces(
+        useStore,
+        [user, settings],
+        (userState, settingsState) => {
+          expectType<string>(userState.name);
+          expectType<Settings>(settingsState);
+          return `${userState.name} ${settingsState.theme}`;
+        }
+      );
+      renders();
+      return <p data-testid="profile">{label}</p>;
+    };
+
+    render(<Profile />);
+    expect(screen.getByTestId('profile')).toHaveTextContent('Ada light');
+
+    act(() => {
+      useStore.namespaces.settings.setState({ theme: 'dark' });
+    });
+    expect(screen.getByTestId('profile')).toHaveTextContent('Ada dark');
+
+    act(() => {
+      useStore.setState({ mainData: 'updated' });
+    });
+    expect(renders).toHaveBeenCalledTimes(2);
+  });
+
+  test('should keep the selected value while it is equal', () => {
+    const useStore = createStore();
+    const renders = vi.fn();
+
+    const Profile = () => {
+      const { name, theme } = useNamespaces(
+        useStore,
+        [user, settings],
+        (userState, settingsState) => ({
+          name: userState.name,
+          theme: settingsState.theme,
+        }),
+        shallow
+      );
+      renders();
+      return (
+        <p data-testid="profile">
+          {name} {theme}
+        </p>
+      );
+    };
+
+    render(<Profile />);
+    act(() => {
+      useStore.namespaces.user.namespaces.subNamespace.setState({
+        dataInSubNamespace: 'updated',
+      });
+    });
+    expect(renders).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      useStore.namespaces.user.setState({ name: 'Grace' });
+    });
+    expect(screen.getByTestId('profile')).toHaveTextContent('Grace light');
+  });
+
+  test('should select from the namespaces of a namespace', () => {
+    const useStore = createStore();
+
+    const Sub = () => {
+      const data = useNamespaces(
+        useStore.namespaces.user,
+        [subNamespace],
+        (subState) => subState.dataInSubNamespace
+      );
+      return <p data-testid="sub">{data}</p>;
+    };
+
+    render(<Sub />);
+    act(() => {
+      useStore.namespaces.user.namespaces.subNamespace.setState({
+        dataInSubNamespace: 'updated',
+      });
+    });
+    expect(screen.getByTestId('sub')).toHaveTextContent('updated');
+  });
+});
+
+describe('subscribeNamespaces', () => {
+  test('should only notify when the selected value changes', () => {
+    const useStore = createStore();
+    const selector = vi.fn(
+      (userState: User, settingsState: Settings) =>
+        `${userState.name} ${settingsState.theme}`
+    );
+    const listener = vi.fn();
+    subscribeNamespaces(useStore, [user, settings], selector, listener);
+
+    useStore.setState({ mainData: 'updated' });
+    useStore.namespaces.user.namespaces.subNamespace.setState({
+      dataInSubNamespace: 'updated',
+    });
+    useStore.setState({ settings_theme: 'dark' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('Ada dark', 'Ada light');
+    // the root update does not change a namespace, so nothing is selected
+    expect(selector).toHaveBeenCalledTimes(3);
+  });
+
+  test('should compare with the equality function and fire immediately', () => {
+    const useStore = createStore();
+    const listener = vi.fn();
+    const unsubscribe = subscribeNamespaces(
+      useStore,
+      [user, settings],
+      (userState, settingsState) => ({
+        name: userState.name,
+        theme: settingsState.theme,
+      }),
+      listener,
+      { equalityFn: shallow, fireImmediately: true }
+    );
+    expect(listener).toHaveBeenCalledWith(
+      { name: 'Ada', theme: 'light' },
+      { name: 'Ada', theme: 'light' }
+    );
+
+    useStore.namespaces.user.namespaces.subNamespace.setState({
+      dataInSubNamespace: 'updated',
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    useStore.namespaces.user.setState({ name: 'Grace' });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('should throw for namespaces that are not in the store', () => {
+    const useStore = createStore();
+
+    expect(() =>
+      subscribeNamespaces(
+        useStore,
+        [subNamespace],
+        (subState) => subState,
+        () => {}
+      )
+    ).toThrow('Namespace not found');
+  });
+});
@@ -19,9 +19,14 @@ export default defineConfig({
     },
     rollupOptions: {
       // Externalize dependencies that shouldn't be bundled
-      external: [], // Add any external dependencies here
+      external: ['react', 'react/jsx-runtime', 'zustand', 'zustand/middleware'], // Add any external dependencies here
       output: {
-        globals: {}, // Global variables for external dependencies
+        globals: {
+          react: 'React',
+          'react/jsx-runtime': 'jsxRuntime',
+          zustand: 'zustand',
+          'zustand/middleware': 'zustandMiddleware',
+        }, // Global variables for external dependencies
       },
     },
   },